@@ -0,0 +1,86 @@
+/**
+ * A BroadcastChannel-like channel: messages reach every other channel opened
+ * with the same name, in this tab and others.
+ */
+export interface Channel<M> {
+  post(message: M): void;
+  subscribe(listener: (message: M) => void): () => void;
+  close(): void;
+}
+
+// Channels of this tab, so the storage fallback reaches them too
+const localChannels = new Map<string, Set<(message: unknown) => void>>();
+
+/**
+ * Falls back on the storage event without BroadcastChannel: messages are
+ * written to localStorage and removed right away, so they must be JSON.
+ */
+function openStorageChannel<M>(name: string): Channel<M> {
+  const key = `iso-hooks:broadcast:${name}`;
+  const listeners = new Set<(message: M) => void>();
+  const deliver = (message: unknown) =>
+    listeners.forEach((listener) => listener(message as M));
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== key || !event.newValue) return;
+    try {
+      deliver(JSON.parse(event.newValue).message);
+    } catch {
+      // Not one of our messages
+    }
+  };
+
+  let peers = localChannels.get(name);
+  if (!peers) localChannels.set(name, (peers = new Set()));
+  const local = peers;
+  local.add(deliver);
+  window.addEventListener("storage", handleStorage);
+
+  return {
+    post(message) {
+      local.forEach((peer) => peer !== deliver && peer(message));
+      try {
+        // The nonce makes repeated messages distinct changes
+        window.localStorage.setItem(
+          key,
+          JSON.stringify({ message, nonce: Math.random() })
+        );
+        window.localStorage.removeItem(key);
+      } catch (error) {
+        console.warn(`Error broadcasting on channel "${name}":`, error);
+      }
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    close() {
+      listeners.clear();
+      local.delete(deliver);
+      window.removeEventListener("storage", handleStorage);
+    },
+  };
+}
+
+/** Opens a channel over BroadcastChannel, or the storage event without it */
+export function openChannel<M>(name: string): Channel<M> {
+  if (typeof BroadcastChannel === "undefined") {
+    return openStorageChannel(name);
+  }
+
+  const channel = new BroadcastChannel(name);
+
+  return {
+    post(message) {
+      channel.postMessage(message);
+    },
+    subscribe(listener) {
+      const handleMessage = (event: MessageEvent) => listener(event.data);
+      channel.addEventListener("message", handleMessage);
+      return () => channel.removeEventListener("message", handleMessage);
+    },
+    close() {
+      channel.close();
+    },
+  };
+}
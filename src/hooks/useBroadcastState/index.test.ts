@@ -0,0 +1,61 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { afterEach, describe, expect, it } from "vitest";
+import { useBroadcastState } from ".";
+
+const OriginalBroadcastChannel = global.BroadcastChannel;
+
+afterEach(() => {
+  global.BroadcastChannel = OriginalBroadcastChannel;
+  window.localStorage.clear();
+});
+
+describe("useBroadcastState", () => {
+  it("should sync state between hooks on the same channel", async () => {
+    const a = renderHook(() => useBroadcastState("cart", [] as string[]));
+    const b = renderHook(() => useBroadcastState("cart", [] as string[]));
+    const other = renderHook(() => useBroadcastState("other", [] as string[]));
+
+    act(() => a.result.current[1]((items) => [...items, "apple"]));
+    expect(a.result.current[0]).toEqual(["apple"]);
+
+    await waitFor(() => expect(b.result.current[0]).toEqual(["apple"]));
+
+    act(() => b.result.current[1]((items) => [...items, "pear"]));
+    await waitFor(() => expect(a.result.current[0]).toEqual(["apple", "pear"]));
+    expect(other.result.current[0]).toEqual([]);
+  });
+
+  it("should send the current value to tabs opening later", async () => {
+    const a = renderHook(() => useBroadcastState("theme", "light"));
+    act(() => a.result.current[1]("dark"));
+
+    const b = renderHook(() => useBroadcastState("theme", "light"));
+
+    expect(b.result.current[0]).toBe("light");
+    await waitFor(() => expect(b.result.current[0]).toBe("dark"));
+  });
+
+  it("should fall back to the storage event without BroadcastChannel", () => {
+    global.BroadcastChannel = undefined as any;
+
+    const a = renderHook(() => useBroadcastState("count", 0));
+    const b = renderHook(() => useBroadcastState("count", 0));
+
+    act(() => a.result.current[1](1));
+    expect(b.result.current[0]).toBe(1);
+
+    // A message from another tab
+    act(() => {
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: "iso-hooks:broadcast:iso-hooks:state:count",
+          newValue: JSON.stringify({ message: { type: "state", value: 5 } }),
+        })
+      );
+    });
+
+    expect(a.result.current[0]).toBe(5);
+    expect(b.result.current[0]).toBe(5);
+    expect(window.localStorage.length).toBe(0);
+  });
+});
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { openChannel, type Channel } from "./channel";
+
+type StateMessage<T> = { type: "state"; value: T } | { type: "sync" };
+
+/**
+ * useBroadcastState
+ *
+ * State shared by every tab and window of the app, like `useState`: setting
+ * it in one tab updates the others. Nothing is persisted; a tab opening
+ * later receives the current value from the open ones. Uses
+ * BroadcastChannel, or the storage event where it is missing (values must
+ * then be JSON). Nothing happens on the server.
+ *
+ * @example
+ * ```tsx
+ * const [cart, setCart] = useBroadcastState<CartItem[]>("cart", []);
+ *
+ * setCart((items) => [...items, item]); // every tab shows the new item
+ * ```
+ *
+ * @param channelName - Tabs using the same name share the state
+ * @param initialValue - Used until a value is set or received
+ */
+export function useBroadcastState<T>(channelName: string, initialValue: T) {
+  const [value, setState] = useState(initialValue);
+  const valueRef = useRef(value);
+  valueRef.current = value;
+  // Whether this tab has a value to share with tabs opening later
+  const hasValueRef = useRef(false);
+  const channelRef = useRef<Channel<StateMessage<T>> | null>(null);
+
+  useEffect(() => {
+    const channel = openChannel<StateMessage<T>>(
+      `iso-hooks:state:${channelName}`
+    );
+    channelRef.current = channel;
+
+    const unsubscribe = channel.subscribe((message) => {
+      if (message.type === "state") {
+        hasValueRef.current = true;
+        valueRef.current = message.value;
+        setState(message.value);
+      } else if (message.type === "sync" && hasValueRef.current) {
+        channel.post({ type: "state", value: valueRef.current });
+      }
+    });
+
+    // Ask open tabs for the current value
+    channel.post({ type: "sync" });
+
+    return () => {
+      unsubscribe();
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [channelName]);
+
+  const setValue = useCallback((newValue: T | ((val: T) => T)) => {
+    const next =
+      newValue instanceof Function ? newValue(valueRef.current) : newValue;
+
+    hasValueRef.current = true;
+    valueRef.current = next;
+    setState(next);
+    channelRef.current?.post({ type: "state", value: next });
+  }, []);
+
+  return [value, setValue] as const;
+}
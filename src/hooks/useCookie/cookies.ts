@@ -0,0 +1,56 @@
+export interface CookieAttributes {
+  /** Lifetime in seconds; without it the cookie ends with the session */
+  maxAge?: number;
+  /** @default "/" */
+  path?: string;
+  domain?: string;
+  /** @default "lax" */
+  sameSite?: "strict" | "lax" | "none";
+  /** Only sent over HTTPS; required by browsers with `sameSite: "none"` */
+  secure?: boolean;
+}
+
+/**
+ * Reads one cookie from a `Cookie` header or `document.cookie` string.
+ *
+ * @returns The decoded value, or null when the cookie is missing or empty
+ */
+export function readCookie(cookies: string, name: string): string | null {
+  for (const pair of cookies.split(/;\s*/)) {
+    const index = pair.indexOf("=");
+    if (index === -1 || pair.slice(0, index).trim() !== name) continue;
+
+    const value = pair.slice(index + 1);
+    if (!value) return null;
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Builds a string to assign to `document.cookie`. A null value removes the
+ * cookie, which takes the same path and domain it was set with.
+ */
+export function serializeCookie(
+  name: string,
+  value: string | null,
+  { maxAge, path = "/", domain, sameSite = "lax", secure }: CookieAttributes
+): string {
+  let cookie = `${name}=${value === null ? "" : encodeURIComponent(value)}`;
+
+  if (value === null) {
+    cookie += "; expires=Thu, 01 Jan 1970 00:00:00 GMT";
+  } else if (maxAge !== undefined) {
+    cookie += `; max-age=${Math.floor(maxAge)}`;
+  }
+  cookie += `; path=${path}`;
+  if (domain) cookie += `; domain=${domain}`;
+  cookie += `; samesite=${sameSite}`;
+  if (secure) cookie += "; secure";
+
+  return cookie;
+}
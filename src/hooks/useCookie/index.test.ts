@@ -0,0 +1,118 @@
+import { act, renderHook } from "@testing-library/react";
+import { createElement } from "react";
+import { hydrateRoot } from "react-dom/client";
+import { renderToString } from "react-dom/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { CookieProvider, serializeCookie, useCookie } from ".";
+
+const clearCookies = () => {
+  document.cookie.split(/;\s*/).forEach((pair) => {
+    const name = pair.split("=")[0];
+    if (name) document.cookie = serializeCookie(name, null, {});
+  });
+};
+
+const Theme = () => {
+  const [theme] = useCookie("theme", "light");
+  return createElement("span", null, theme);
+};
+
+beforeEach(() => {
+  clearCookies();
+});
+
+describe("useCookie", () => {
+  it("should read the cookie", () => {
+    document.cookie = "theme=%22dark%22; path=/";
+
+    const { result } = renderHook(() => useCookie("theme", "light"));
+
+    expect(result.current[0]).toBe("dark");
+  });
+
+  it("should set the cookie and sync hooks", () => {
+    const a = renderHook(() => useCookie("count", 0, { maxAge: 3600 }));
+    const b = renderHook(() => useCookie("count", 0));
+
+    act(() => {
+      a.result.current[1](1);
+      a.result.current[1]((prev) => prev + 1);
+    });
+
+    expect(a.result.current[0]).toBe(2);
+    expect(b.result.current[0]).toBe(2);
+    expect(document.cookie).toContain("count=2");
+  });
+
+  it("should remove the cookie", () => {
+    document.cookie = "theme=%22dark%22; path=/";
+    const { result } = renderHook(() => useCookie("theme", "light"));
+
+    act(() => result.current[2]());
+
+    expect(result.current[0]).toBe("light");
+    expect(document.cookie).not.toContain("theme");
+  });
+
+  it("should use custom serialization", () => {
+    const options = {
+      serializer: (date: Date) => date.toISOString(),
+      deserializer: (value: string) => new Date(value),
+    };
+    const { result } = renderHook(() =>
+      useCookie("seen", new Date(0), options)
+    );
+
+    act(() => result.current[1](new Date("2024-01-02T00:00:00.000Z")));
+
+    expect(result.current[0]).toEqual(new Date("2024-01-02T00:00:00.000Z"));
+    expect(document.cookie).toContain(
+      `seen=${encodeURIComponent("2024-01-02T00:00:00.000Z")}`
+    );
+  });
+
+  it("should fall back to the initial value when unreadable", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    document.cookie = "theme=not-json; path=/";
+
+    const { result } = renderHook(() => useCookie("theme", "light"));
+
+    expect(result.current[0]).toBe("light");
+    warn.mockRestore();
+  });
+
+  it("should render the request's cookie on the server", () => {
+    const html = renderToString(
+      createElement(CookieProvider, {
+        cookies: 'session=abc; theme="dark"',
+        children: createElement(Theme),
+      })
+    );
+
+    expect(html).toBe("<span>dark</span>");
+  });
+
+  it("should hydrate the server value without a mismatch", async () => {
+    const cookies = "theme=%22dark%22";
+    const container = document.createElement("div");
+    container.innerHTML = renderToString(
+      createElement(CookieProvider, {
+        cookies,
+        children: createElement(Theme),
+      })
+    );
+    document.cookie = `${cookies}; path=/`;
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const onRecoverableError = vi.fn();
+
+    const root = await act(async () =>
+      hydrateRoot(container, createElement(Theme), { onRecoverableError })
+    );
+
+    expect(container.innerHTML).toBe("<span>dark</span>");
+    expect(onRecoverableError).not.toHaveBeenCalled();
+    expect(error).not.toHaveBeenCalled();
+    act(() => root.unmount());
+    error.mockRestore();
+  });
+});
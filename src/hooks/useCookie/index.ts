@@ -0,0 +1,127 @@
+import { useCallback, useMemo, useRef, useSyncExternalStore } from "react";
+import { readCookie, serializeCookie, type CookieAttributes } from "./cookies";
+import { useServerCookies } from "./provider";
+
+export { CookieProvider, useServerCookies } from "./provider";
+export { readCookie, serializeCookie } from "./cookies";
+export type { CookieProviderProps } from "./provider";
+export type { CookieAttributes } from "./cookies";
+
+export interface UseCookieOptions<T> extends CookieAttributes {
+  /** @default JSON.stringify */
+  serializer?: (value: T) => string;
+  /** @default JSON.parse */
+  deserializer?: (value: string) => T;
+}
+
+// Hooks of this document, told when a cookie is set through one of them
+const listeners = new Set<() => void>();
+
+const notifyCookieChange = () => listeners.forEach((listener) => listener());
+
+const MISSING = Symbol("missing");
+
+function subscribe(callback: () => void) {
+  // Cookies set by other tabs or the server have no event: look again when
+  // the user comes back
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === "visible") callback();
+  };
+
+  listeners.add(callback);
+  window.addEventListener("focus", callback);
+  document.addEventListener("visibilitychange", handleVisibilityChange);
+
+  return () => {
+    listeners.delete(callback);
+    window.removeEventListener("focus", callback);
+    document.removeEventListener("visibilitychange", handleVisibilityChange);
+  };
+}
+
+/**
+ * useCookie
+ *
+ * Keeps a value in a cookie, readable on the server: wrap the server render
+ * in a `CookieProvider` holding the request's cookies, and it renders the
+ * stored value instead of `initialValue`, avoiding a flash (a theme, a
+ * locale) when the page hydrates. Values are serialized as JSON by default.
+ * Components using the same cookie stay in sync; changes made by other tabs
+ * are picked up when the page regains focus.
+ *
+ * @example
+ * ```tsx
+ * const [theme, setTheme, resetTheme] = useCookie<"light" | "dark">(
+ *   "theme",
+ *   "light",
+ *   { maxAge: 60 * 60 * 24 * 365 }
+ * );
+ * ```
+ *
+ * @param name - The cookie name
+ * @param initialValue - Used while the cookie is missing or unreadable
+ * @param options - Cookie attributes and serialization
+ * @returns The value, a setter and a function removing the cookie
+ */
+export function useCookie<T>(
+  name: string,
+  initialValue: T,
+  options: UseCookieOptions<T> = {}
+) {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const serverCookies = useServerCookies();
+
+  const getSnapshot = () => readCookie(document.cookie, name);
+
+  // While hydrating, the browser's cookies are those the server received
+  const getServerSnapshot = () => {
+    if (serverCookies !== null) return readCookie(serverCookies, name);
+    return typeof document === "undefined" ? null : getSnapshot();
+  };
+
+  const raw = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+
+  const parsed = useMemo(() => {
+    if (raw === null) return MISSING;
+    const { deserializer = JSON.parse } = optionsRef.current;
+    try {
+      return { value: deserializer(raw) as T };
+    } catch (error) {
+      console.warn(`Error reading cookie "${name}":`, error);
+      return MISSING;
+    }
+  }, [name, raw]);
+
+  const value = parsed === MISSING ? initialValue : parsed.value;
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  const write = useCallback(
+    (serialized: string | null) => {
+      if (typeof document === "undefined") return;
+      document.cookie = serializeCookie(name, serialized, optionsRef.current);
+      notifyCookieChange();
+    },
+    [name]
+  );
+
+  const setValue = useCallback(
+    (newValue: T | ((val: T) => T)) => {
+      const { serializer = JSON.stringify } = optionsRef.current;
+      try {
+        const next =
+          newValue instanceof Function ? newValue(valueRef.current) : newValue;
+        valueRef.current = next;
+        write(serializer(next));
+      } catch (error) {
+        console.warn(`Error setting cookie "${name}":`, error);
+      }
+    },
+    [name, write]
+  );
+
+  const remove = useCallback(() => write(null), [write]);
+
+  return [value, setValue, remove] as const;
+}
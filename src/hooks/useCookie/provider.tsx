@@ -0,0 +1,41 @@
+import { createContext, useContext } from "react";
+import type { ReactNode } from "react";
+
+export interface CookieProviderProps {
+  /** The request's `Cookie` header */
+  cookies?: string | null;
+  children?: ReactNode;
+}
+
+const CookieContext = createContext<string | null>(null);
+
+/**
+ * Hands the request's cookies to every `useCookie` below it on the server,
+ * so the server renders the values the browser will read. Not needed in
+ * the browser, where `document.cookie` is read instead.
+ *
+ * @example
+ * ```tsx
+ * // Server
+ * renderToString(
+ *   <CookieProvider cookies={request.headers.get("cookie")}>
+ *     <App />
+ *   </CookieProvider>
+ * );
+ * ```
+ */
+export function CookieProvider({
+  cookies = null,
+  children,
+}: CookieProviderProps) {
+  return (
+    <CookieContext.Provider value={cookies}>{children}</CookieContext.Provider>
+  );
+}
+
+/**
+ * Returns the cookie string of the nearest CookieProvider (null without one).
+ */
+export function useServerCookies(): string | null {
+  return useContext(CookieContext);
+}
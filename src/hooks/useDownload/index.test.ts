@@ -0,0 +1,125 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { useDownload } from ".";
+import { HttpError, TimeoutError } from "../useFetch";
+
+let mockFetch: ReturnType<typeof vi.fn>;
+
+// Response whose body chunks are pushed by the test
+function createStreamResponse(headers: Record<string, string> = {}) {
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const body = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+  });
+
+  return {
+    response: new Response(body, { headers }),
+    push: (text: string) => controller.enqueue(new TextEncoder().encode(text)),
+    close: () => controller.close(),
+  };
+}
+
+beforeEach(() => {
+  mockFetch = vi.fn();
+  global.fetch = mockFetch as any;
+});
+
+describe("useDownload", () => {
+  it("should report progress while reading the stream", async () => {
+    const stream = createStreamResponse({
+      "Content-Length": "10",
+      "Content-Type": "text/plain",
+    });
+    mockFetch.mockResolvedValueOnce(stream.response);
+
+    const { result } = renderHook(() => useDownload("/files/report.txt"));
+
+    act(() => result.current.download());
+    expect(result.current.isPending).toBe(true);
+
+    await act(async () => stream.push("hello"));
+    await waitFor(() => expect(result.current.progress.loaded).toBe(5));
+    expect(result.current.progress.total).toBe(10);
+    expect(result.current.progress.percent).toBe(50);
+
+    await act(async () => {
+      stream.push("world");
+      stream.close();
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.progress.percent).toBe(100);
+    expect(result.current.progress.rate).toBeGreaterThanOrEqual(0);
+    expect(await result.current.data!.text()).toBe("helloworld");
+    expect(result.current.data!.type).toBe("text/plain");
+  });
+
+  it("should leave percent unknown without a Content-Length", async () => {
+    const stream = createStreamResponse();
+    mockFetch.mockResolvedValueOnce(stream.response);
+
+    const { result } = renderHook(() => useDownload("/files/live.log"));
+
+    act(() => result.current.download());
+    await act(async () => {
+      stream.push("abc");
+      stream.close();
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.progress).toMatchObject({
+      loaded: 3,
+      total: null,
+      percent: null,
+    });
+  });
+
+  it("should fail with an HttpError", async () => {
+    mockFetch.mockResolvedValueOnce(new Response(null, { status: 404 }));
+
+    const { result } = renderHook(() => useDownload("/files/missing"));
+
+    await act(async () => {
+      await expect(result.current.downloadAsync()).rejects.toBeInstanceOf(
+        HttpError
+      );
+    });
+
+    expect(result.current.isError).toBe(true);
+    expect((result.current.error as HttpError).status).toBe(404);
+  });
+
+  it("should abort without reporting an error", async () => {
+    const stream = createStreamResponse({ "Content-Length": "10" });
+    mockFetch.mockResolvedValueOnce(stream.response);
+
+    const { result } = renderHook(() => useDownload("/files/big.zip"));
+
+    act(() => result.current.download());
+    await act(async () => stream.push("hello"));
+    await waitFor(() => expect(result.current.progress.loaded).toBe(5));
+
+    act(() => result.current.abort());
+
+    await waitFor(() => expect(result.current.isIdle).toBe(true));
+    expect(result.current.error).toBeNull();
+    expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(true);
+  });
+
+  it("should fail with a TimeoutError when the download stalls", async () => {
+    const stream = createStreamResponse();
+    mockFetch.mockResolvedValueOnce(stream.response);
+
+    const { result } = renderHook(() =>
+      useDownload("/files/big.zip", { timeout: 20 })
+    );
+
+    act(() => result.current.download());
+
+    await waitFor(() =>
+      expect(result.current.error).toBeInstanceOf(TimeoutError)
+    );
+  });
+});
@@ -0,0 +1,162 @@
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useEventSource } from ".";
+import { NetworkError, ParseError } from "../useFetch";
+
+// EventSource double: the test opens, fails and feeds the connection
+class FakeEventSource extends EventTarget {
+  static instances: FakeEventSource[] = [];
+
+  readyState = 0;
+  onopen: ((event: Event) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  constructor(public url: string, public init?: EventSourceInit) {
+    super();
+    FakeEventSource.instances.push(this);
+  }
+
+  close = vi.fn(() => {
+    this.readyState = 2;
+  });
+
+  open() {
+    act(() => {
+      this.readyState = 1;
+      this.onopen?.(new Event("open"));
+    });
+  }
+
+  emit(type: string, data: string, lastEventId = "") {
+    act(() => {
+      this.dispatchEvent(new MessageEvent(type, { data, lastEventId }));
+    });
+  }
+
+  /** `closed`: the browser gave up instead of reconnecting by itself */
+  fail(closed: boolean) {
+    act(() => {
+      this.readyState = closed ? 2 : 0;
+      this.onerror?.(new Event("error"));
+    });
+  }
+}
+
+const OriginalEventSource = global.EventSource;
+
+beforeEach(() => {
+  FakeEventSource.instances = [];
+  global.EventSource = FakeEventSource as any;
+});
+
+afterEach(() => {
+  global.EventSource = OriginalEventSource;
+  vi.useRealTimers();
+});
+
+describe("useEventSource", () => {
+  it("should keep the last parsed message of each event type", () => {
+    const { result } = renderHook(() =>
+      useEventSource<{ price: { value: number }; message: string }>(
+        "/api/stream",
+        { events: ["price"], withCredentials: true }
+      )
+    );
+
+    const [source] = FakeEventSource.instances;
+    expect(source.url).toBe("/api/stream");
+    expect(source.init).toEqual({ withCredentials: true });
+    expect(result.current.readyState).toBe(0);
+
+    source.open();
+    expect(result.current.readyState).toBe(1);
+
+    source.emit("price", '{"value":1}', "1");
+    source.emit("price", '{"value":2}', "2");
+    source.emit("message", '"hello"');
+
+    expect(result.current.messages).toEqual({
+      price: { value: 2 },
+      message: "hello",
+    });
+    expect(result.current.lastEventId).toBe("2");
+  });
+
+  it("should report payloads that cannot be parsed", () => {
+    const onMessage = vi.fn();
+    const { result } = renderHook(() =>
+      useEventSource("/api/stream", { onMessage })
+    );
+
+    FakeEventSource.instances[0].emit("message", "not json");
+
+    expect(result.current.error).toBeInstanceOf(ParseError);
+    expect(result.current.messages).toEqual({});
+    expect(onMessage).not.toHaveBeenCalled();
+  });
+
+  it("should let the browser resume dropped connections", () => {
+    const { result } = renderHook(() => useEventSource("/api/stream"));
+    const [source] = FakeEventSource.instances;
+
+    source.open();
+    source.fail(false);
+
+    expect(result.current.readyState).toBe(0);
+    expect(FakeEventSource.instances).toHaveLength(1);
+
+    source.open();
+    expect(result.current.readyState).toBe(1);
+  });
+
+  it("should reconnect with backoff after a fatal error", () => {
+    vi.useFakeTimers();
+    const { result } = renderHook(() =>
+      useEventSource("/api/stream", { retryDelay: 1000, maxRetries: 1 })
+    );
+
+    FakeEventSource.instances[0].fail(true);
+    expect(result.current.readyState).toBe(0);
+    expect(result.current.error).toBeInstanceOf(NetworkError);
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(FakeEventSource.instances).toHaveLength(2);
+
+    FakeEventSource.instances[1].fail(true);
+    expect(result.current.readyState).toBe(2);
+
+    act(() => {
+      vi.advanceTimersByTime(10000);
+    });
+    expect(FakeEventSource.instances).toHaveLength(2);
+  });
+
+  it("should close the connection on close() and unmount", () => {
+    const { result, unmount, rerender } = renderHook(
+      ({ url }) => useEventSource(url),
+      { initialProps: { url: "/api/a" as string | null } }
+    );
+
+    act(() => result.current.close());
+    expect(FakeEventSource.instances[0].close).toHaveBeenCalled();
+    expect(result.current.readyState).toBe(2);
+
+    rerender({ url: "/api/b" });
+    expect(FakeEventSource.instances[1].url).toBe("/api/b");
+
+    unmount();
+    expect(FakeEventSource.instances[1].close).toHaveBeenCalled();
+  });
+
+  it("should stay disconnected without a URL or EventSource support", () => {
+    const { result } = renderHook(() => useEventSource(null));
+    expect(result.current.readyState).toBe(2);
+
+    global.EventSource = undefined as any;
+    renderHook(() => useEventSource("/api/stream"));
+
+    expect(FakeEventSource.instances).toHaveLength(0);
+  });
+});
@@ -0,0 +1,185 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { NetworkError, ParseError } from "../useFetch/errors";
+import { getRetryDelay, type RetryOptions } from "../useFetch/retry";
+
+/** Same values as `EventSource.readyState`: connecting, open, closed */
+export type EventSourceReadyState = 0 | 1 | 2;
+
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSED = 2;
+
+export interface UseEventSourceOptions<TEvents extends Record<string, unknown>>
+  extends Pick<RetryOptions, "retryDelay"> {
+  /** Named events to listen to, besides unnamed "message" events */
+  events?: (keyof TEvents & string)[];
+  /** Send cookies with cross-origin requests */
+  withCredentials?: boolean;
+  /** Reads an event's data (JSON by default) */
+  parse?: (data: string, event: string) => unknown;
+  /** Called with every parsed message */
+  onMessage?: <E extends keyof TEvents & string>(
+    event: E,
+    data: TEvents[E],
+    message: MessageEvent
+  ) => unknown;
+  /**
+   * Reconnect after the connection failed for good, with exponential
+   * backoff. Dropped connections are resumed by the browser itself, after
+   * the delay sent in the stream's `retry:` field.
+   * @default true
+   */
+  reconnect?: boolean;
+  /**
+   * Reconnections attempted before giving up.
+   * @default Infinity
+   */
+  maxRetries?: number;
+}
+
+interface EventSourceState<TEvents> {
+  readyState: EventSourceReadyState;
+  lastEventId: string;
+  messages: Partial<TEvents>;
+  error: Error | null;
+}
+
+const initialState = <TEvents>(
+  url: string | null
+): EventSourceState<TEvents> => ({
+  readyState: url ? CONNECTING : CLOSED,
+  lastEventId: "",
+  messages: {},
+  error: null,
+});
+
+const defaultParse = (data: string): unknown => JSON.parse(data);
+
+/**
+ * useEventSource
+ *
+ * Subscribes to a Server-Sent Events stream and keeps the last message of
+ * each event type, parsed as JSON. Nothing happens on the server.
+ *
+ * @example
+ * ```tsx
+ * const { messages, readyState } = useEventSource<{ price: Quote; news: Article }>(
+ *   "/api/stream",
+ *   { events: ["price", "news"] }
+ * );
+ *
+ * messages.price?.value;
+ * ```
+ *
+ * @param url - The stream URL (null to stay disconnected)
+ * @param options - Events to listen to, parsing and reconnection settings
+ */
+export function useEventSource<
+  TEvents extends Record<string, unknown> = Record<string, unknown>
+>(url: string | null, options: UseEventSourceOptions<TEvents> = {}) {
+  const { events = [], withCredentials = false } = options;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const [state, setState] = useState<EventSourceState<TEvents>>(() =>
+    initialState(url)
+  );
+  const closeRef = useRef<() => void>(() => {});
+
+  // Compare the event names by value so inline arrays don't reconnect
+  const eventsKey = events.join(",");
+
+  useEffect(() => {
+    setState(initialState<TEvents>(url));
+    if (!url || typeof EventSource === "undefined") return;
+
+    let source: EventSource | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+
+    const close = () => {
+      clearTimeout(timer);
+      source?.close();
+      setState((prev) => ({ ...prev, readyState: CLOSED }));
+    };
+    closeRef.current = close;
+
+    const scheduleReconnect = () => {
+      const {
+        reconnect = true,
+        maxRetries = Infinity,
+        retryDelay,
+      } = optionsRef.current;
+      const error = new NetworkError(url);
+
+      attempt++;
+      if (!reconnect || attempt > maxRetries) {
+        setState((prev) => ({ ...prev, readyState: CLOSED, error }));
+        return;
+      }
+
+      setState((prev) => ({ ...prev, readyState: CONNECTING, error }));
+      timer = setTimeout(
+        connect,
+        getRetryDelay(attempt, error, { retryDelay })
+      );
+    };
+
+    const listen = (es: EventSource, name: string) => {
+      es.addEventListener(name, (event) => {
+        const message = event as MessageEvent;
+        const { parse = defaultParse, onMessage } = optionsRef.current;
+        let data: any;
+
+        try {
+          data = parse(message.data, name);
+        } catch (err) {
+          setState((prev) => ({ ...prev, error: new ParseError(url, err) }));
+          return;
+        }
+
+        setState((prev) => ({
+          ...prev,
+          lastEventId: message.lastEventId || prev.lastEventId,
+          messages: { ...prev.messages, [name]: data },
+        }));
+        onMessage?.(name, data, message);
+      });
+    };
+
+    function connect() {
+      const es = new EventSource(url!, { withCredentials });
+      source = es;
+
+      es.onopen = () => {
+        attempt = 0;
+        setState((prev) => ({ ...prev, readyState: OPEN, error: null }));
+      };
+      es.onerror = () => {
+        if (es.readyState === CLOSED) {
+          // The browser gave up (e.g. an error status): back off and retry
+          scheduleReconnect();
+        } else {
+          // The browser is reconnecting on its own, honoring `retry:`
+          setState((prev) => ({ ...prev, readyState: CONNECTING }));
+        }
+      };
+
+      ["message", ...events].forEach((name) => listen(es, name));
+    }
+
+    connect();
+
+    return () => {
+      clearTimeout(timer);
+      source?.close();
+      closeRef.current = () => {};
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [url, withCredentials, eventsKey]);
+
+  /** Closes the connection and stops reconnecting, until `url` changes */
+  const close = useCallback(() => closeRef.current(), []);
+
+  return { ...state, close };
+}
@@ -0,0 +1,163 @@
+/**
+ * Base class of every error produced by the fetch layer, so callers can tell
+ * them apart from errors thrown by their own code with `instanceof`.
+ */
+export class FetchError extends Error {
+  /** URL of the request that failed */
+  readonly url: string;
+  /** Underlying error, if any (e.g. the TypeError thrown by fetch) */
+  readonly cause?: unknown;
+
+  constructor(message: string, url: string, cause?: unknown) {
+    super(message);
+    this.name = "FetchError";
+    this.url = url;
+    this.cause = cause;
+  }
+}
+
+/**
+ * The request never produced a response (offline, DNS, CORS, ...).
+ */
+export class NetworkError extends FetchError {
+  constructor(url: string, cause?: unknown) {
+    super(`Network request to ${url} failed`, url, cause);
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * The server answered with a non-2xx status.
+ *
+ * @example
+ * ```ts
+ * if (error instanceof HttpError && error.status === 422) {
+ *   const { fieldErrors } = await error.parseBody<ValidationBody>();
+ * }
+ * ```
+ */
+export class HttpError extends FetchError {
+  readonly status: number;
+  readonly statusText: string;
+  readonly headers: Headers;
+  /** The raw response; its body is only read by parseBody() */
+  readonly response: Response;
+
+  private bodyPromise: Promise<unknown> | null = null;
+
+  constructor(response: Response, url: string) {
+    const statusText = response.statusText ?? "";
+    super(
+      `Fetch failed: ${response.status}${statusText ? ` ${statusText}` : ""}`,
+      url
+    );
+    this.name = "HttpError";
+    this.status = response.status;
+    this.statusText = statusText;
+    this.headers = response.headers ?? new Headers();
+    this.response = response;
+  }
+
+  /**
+   * Reads the response body on first call: JSON when it parses as JSON, the
+   * raw text otherwise, and null when the body is empty or unreadable.
+   */
+  parseBody<B = unknown>(): Promise<B> {
+    if (!this.bodyPromise) {
+      this.bodyPromise = (async () => {
+        try {
+          const text = await this.response.text();
+          if (!text) return null;
+
+          try {
+            return JSON.parse(text);
+          } catch {
+            return text;
+          }
+        } catch {
+          return null;
+        }
+      })();
+    }
+
+    return this.bodyPromise as Promise<B>;
+  }
+}
+
+/**
+ * The response arrived but its body could not be parsed.
+ */
+export class ParseError extends FetchError {
+  constructor(url: string, cause?: unknown) {
+    super(`Could not parse the response from ${url}`, url, cause);
+    this.name = "ParseError";
+  }
+}
+
+/**
+ * The request was aborted because it took too long.
+ */
+export class TimeoutError extends FetchError {
+  constructor(url: string, cause?: unknown) {
+    super(`Request to ${url} timed out`, url, cause);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * A single problem reported by a validator. `path` locates the failing field,
+ * e.g. `["items", 0, "price"]`.
+ */
+export interface ValidationIssue {
+  path: (string | number)[];
+  message: string;
+}
+
+/**
+ * Normalizes what validators throw: Zod-style `issues` arrays, Yup-style
+ * `path` strings, or plain errors.
+ */
+function getValidationIssues(cause: any): ValidationIssue[] {
+  if (Array.isArray(cause?.issues)) {
+    return cause.issues.map((issue: any) => ({
+      path: Array.isArray(issue?.path) ? issue.path : [],
+      message: String(issue?.message ?? "Invalid value"),
+    }));
+  }
+
+  const path =
+    typeof cause?.path === "string"
+      ? cause.path.split(".").filter(Boolean)
+      : Array.isArray(cause?.path)
+        ? cause.path
+        : [];
+
+  return [{ path, message: String(cause?.message ?? "Invalid value") }];
+}
+
+/**
+ * The response was parsed but did not match the expected schema.
+ */
+export class ValidationError extends FetchError {
+  readonly issues: ValidationIssue[];
+  /** Path of the first failing field (empty when the root is invalid) */
+  readonly path: (string | number)[];
+
+  constructor(url: string, cause?: unknown) {
+    const issues = getValidationIssues(cause);
+    const [{ path, message }] = issues.length
+      ? issues
+      : [{ path: [], message: "Invalid value" }];
+
+    super(
+      `Invalid response from ${url}${
+        path.length ? ` at "${path.join(".")}"` : ""
+      }: ${message}`,
+      url,
+      cause
+    );
+    this.name = "ValidationError";
+    this.issues = issues;
+    this.path = path;
+  }
+}
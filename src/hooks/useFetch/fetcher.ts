@@ -0,0 +1,327 @@
+import type { FetchConfig, FetchRequest } from "./config";
+import { HttpError, NetworkError, ParseError, TimeoutError } from "./errors";
+import {
+  parseResponse,
+  type FetchResponseType,
+  type ResponseParser,
+} from "./parseResponse";
+import { getQueryKey, type QueryFetcher, type QueryKey } from "./queryCache";
+import type { RetryOptions } from "./retry";
+import { validateData, type Validator } from "./validate";
+
+export interface UseFetchOptions<T, S = T> extends RequestInit, RetryOptions {
+  initialData?: T;
+  /**
+   * Stale-while-revalidate mode: cached data is served right away and
+   * revalidated in the background, when the window regains focus and when
+   * the browser comes back online.
+   * @default false
+   */
+  swr?: boolean;
+  /**
+   * How long (ms) cached data counts as fresh. Fresh data is not refetched
+   * on mount, focus or reconnect.
+   * @default 0
+   */
+  staleTime?: number;
+  /**
+   * How long (ms) cached data is kept once no component uses it. Pass
+   * Infinity to keep it for the whole session.
+   * @default 300000 (5 minutes)
+   */
+  cacheTime?: number;
+  /** @default true in swr mode, false otherwise */
+  revalidateOnFocus?: boolean;
+  /** @default true in swr mode, false otherwise */
+  revalidateOnReconnect?: boolean;
+  /**
+   * Polling interval (ms), counted from the end of the previous request so
+   * slow responses never stack. Pass a function of the cached data to stop
+   * polling (return false) once it reaches a terminal state.
+   */
+  refetchInterval?: number | false | ((data: T | undefined) => number | false);
+  /**
+   * Keep polling while the tab is hidden. Polling always pauses offline.
+   * @default false
+   */
+  refetchIntervalInBackground?: boolean;
+  /**
+   * How to read the response body. Ignored when `parse` is given.
+   * @default "json"
+   */
+  responseType?: FetchResponseType;
+  /**
+   * Custom body reader, e.g. `(res) => res.text().then(parseCsv)`. Not part
+   * of the cache key: every hook using the same key must read it alike.
+   */
+  parse?: ResponseParser<T>;
+  /**
+   * Checks the parsed body before it is cached, e.g. a Zod schema. Failures
+   * surface as a ValidationError carrying the path of the failing field.
+   * Not part of the cache key: hooks sharing a key must share the validator.
+   */
+  validate?: Validator<T>;
+  /** Derives the returned `data` from the cached data */
+  select?: (data: T) => S;
+  /**
+   * Aborts an attempt that takes longer than this (ms) and reports a
+   * TimeoutError. Each retry gets the full timeout again.
+   */
+  timeout?: number;
+  /**
+   * Cancels the request when aborted, alongside the hook's own signal. The
+   * request is shared by every component using the same key.
+   */
+  signal?: AbortSignal | null;
+}
+
+/** Strips the hook-only options, leaving what is passed on to fetch */
+export function getRequestInit<T, S>({
+  initialData,
+  swr,
+  staleTime,
+  cacheTime,
+  revalidateOnFocus,
+  revalidateOnReconnect,
+  refetchInterval,
+  refetchIntervalInBackground,
+  retry,
+  retryDelay,
+  shouldRetry,
+  responseType,
+  parse,
+  validate,
+  select,
+  timeout,
+  ...init
+}: UseFetchOptions<T, S>): RequestInit {
+  return init;
+}
+
+/**
+ * The cache key of a request made with these options under a provider: its
+ * base URL and default headers are part of the key, so providers pointing
+ * at different APIs or users never share entries. Changes made by request
+ * interceptors are not.
+ */
+export function getFetchQueryKey<T, S>(
+  url: string,
+  options: UseFetchOptions<T, S>,
+  { baseUrl, headers }: FetchConfig = {}
+): QueryKey {
+  const init = getRequestInit(options);
+
+  return getQueryKey(
+    url,
+    headers ? { ...init, headers: mergeHeaders(headers, init.headers) } : init,
+    options.responseType,
+    resolveUrl(url, baseUrl) === url ? undefined : baseUrl
+  );
+}
+
+export function getRetryOptions<T, S>({
+  retry,
+  retryDelay,
+  shouldRetry,
+}: UseFetchOptions<T, S>): RetryOptions {
+  return { retry, retryDelay, shouldRetry };
+}
+
+const noop = () => {};
+
+const toArray = <T>(value: T | T[] | undefined): T[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+/** Prefixes relative URLs with the base URL; absolute URLs are kept */
+function resolveUrl(url: string, baseUrl?: string) {
+  if (!baseUrl || /^([a-z][a-z\d+\-.]*:|\/\/)/i.test(url)) return url;
+  return `${baseUrl.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`;
+}
+
+/** Default headers overridden by the per-call ones */
+function mergeHeaders(defaults?: HeadersInit, headers?: HeadersInit) {
+  if (!defaults) return headers;
+
+  const merged = new Headers(defaults);
+  new Headers(headers).forEach((value, name) => merged.set(name, value));
+  return merged;
+}
+
+/**
+ * Applies the provider settings and request interceptors to a request.
+ */
+export async function resolveRequest(
+  url: string,
+  init: RequestInit,
+  { baseUrl, headers, onRequest }: FetchConfig = {}
+): Promise<FetchRequest> {
+  let request: FetchRequest = {
+    url: resolveUrl(url, baseUrl),
+    init: headers
+      ? { ...init, headers: mergeHeaders(headers, init.headers) }
+      : init,
+  };
+
+  for (const interceptor of toArray(onRequest)) {
+    request = (await interceptor(request)) ?? request;
+  }
+
+  return request;
+}
+
+/**
+ * Sends a request with the provider settings and interceptors applied, and
+ * returns the successful response. Failures become typed errors.
+ *
+ * @param send - Performs the request (defaults to the configured fetch)
+ */
+export async function sendRequest(
+  url: string,
+  init: RequestInit,
+  config: FetchConfig,
+  send: (url: string, init: RequestInit) => Promise<Response> = config.fetch ??
+    fetch
+): Promise<Response> {
+  const request = await resolveRequest(url, init, config);
+  let res: Response;
+
+  try {
+    res = await send(request.url, request.init);
+  } catch (err: any) {
+    if (err?.name === "AbortError") throw err;
+    if (err?.name === "TimeoutError") throw new TimeoutError(url, err);
+    throw new NetworkError(url, err);
+  }
+
+  for (const interceptor of toArray(config.onResponse)) {
+    res = (await interceptor(res, request)) ?? res;
+  }
+
+  if (!res.ok) {
+    throw new HttpError(res, url);
+  }
+
+  return res;
+}
+
+/**
+ * Reads a response body chunk by chunk until it ends. Aborting `signal`
+ * cancels the read with an AbortError; other read failures become a
+ * NetworkError.
+ */
+export async function readStream(
+  body: ReadableStream<Uint8Array>,
+  url: string,
+  signal: AbortSignal,
+  onChunk: (chunk: Uint8Array) => void
+): Promise<void> {
+  const reader = body.getReader();
+  let done = false;
+
+  // Stream bodies from custom transports may ignore the fetch signal
+  const cancel = () => reader.cancel().catch(noop);
+  signal.addEventListener("abort", cancel, { once: true });
+
+  try {
+    for (;;) {
+      let result: ReadableStreamReadResult<Uint8Array>;
+
+      try {
+        result = await reader.read();
+      } catch (err: any) {
+        if (err?.name === "AbortError") throw err;
+        throw new NetworkError(url, err);
+      }
+
+      if (signal.aborted) {
+        throw new DOMException("The operation was aborted.", "AbortError");
+      }
+      if ((done = result.done)) break;
+
+      onChunk(result.value);
+    }
+  } finally {
+    signal.removeEventListener("abort", cancel);
+    // Stop the download when onChunk threw
+    if (!done) cancel();
+  }
+}
+
+/**
+ * Runs `task` with a signal aborted by `signal`, the caller's own signal or
+ * the timeout, whichever comes first. A timeout fails with a TimeoutError.
+ */
+export async function runAbortable<R>(
+  url: string,
+  signal: AbortSignal,
+  {
+    timeout,
+    signal: externalSignal,
+  }: { timeout?: number; signal?: AbortSignal | null },
+  task: (signal: AbortSignal) => Promise<R>
+): Promise<R> {
+  if (!timeout && !externalSignal) return task(signal);
+
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const detach = [signal, externalSignal].map((source) => {
+    if (!source) return noop;
+
+    const onAbort = () => controller.abort(source.reason);
+    if (source.aborted) onAbort();
+    source.addEventListener("abort", onAbort, { once: true });
+    return () => source.removeEventListener("abort", onAbort);
+  });
+  const timer = timeout
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeout)
+    : undefined;
+
+  try {
+    return await task(controller.signal);
+  } catch (err) {
+    if (timedOut) throw new TimeoutError(url, err);
+    throw err;
+  } finally {
+    clearTimeout(timer);
+    detach.forEach((fn) => fn());
+  }
+}
+
+/**
+ * Builds the fetcher for one URL: applies the provider settings, performs
+ * the request, turns failures into typed errors, then parses and validates
+ * the body. Each attempt honors the `timeout` and `signal` options.
+ */
+export function createFetcher<T, S>(
+  url: string,
+  getOptions: () => UseFetchOptions<T, S>,
+  getConfig: () => FetchConfig = () => ({})
+): QueryFetcher<T> {
+  return (querySignal) => {
+    const options = getOptions();
+
+    return runAbortable(url, querySignal, options, async (signal) => {
+      const res = await sendRequest(
+        url,
+        { ...getRequestInit(options), signal },
+        getConfig()
+      );
+      let data: T;
+
+      try {
+        data = await parseResponse(res, options.responseType, options.parse);
+      } catch (err: any) {
+        if (err?.name === "AbortError") throw err;
+        throw new ParseError(url, err);
+      }
+
+      return options.validate
+        ? validateData(options.validate, data, url)
+        : data;
+    });
+  };
+}
@@ -0,0 +1,146 @@
+import { createContext, useContext, useEffect, useMemo } from "react";
+import type { ReactNode } from "react";
+import type { FetchConfig } from "./config";
+import {
+  createFetcher,
+  getFetchQueryKey,
+  getRetryOptions,
+  type UseFetchOptions,
+} from "./fetcher";
+import {
+  fetchQuery,
+  getDehydratedQueryState,
+  getQueryState,
+  hydrate,
+  type DehydratedState,
+  type QueryCache,
+  type QueryKey,
+  type QueryState,
+} from "./queryCache";
+
+interface HydrationContextValue {
+  state: DehydratedState | null;
+  cache?: QueryCache;
+}
+
+const HydrationContext = createContext<HydrationContextValue>({ state: null });
+
+/**
+ * Fetches a query ahead of rendering, e.g. in a Next.js or Remix loader, and
+ * stores the result under the same key `useFetch(url, options)` reads.
+ * Failures are thrown so the loader can decide what to render.
+ *
+ * @param url - The URL to fetch
+ * @param options - The same options the component passes to useFetch
+ * @param cache - Cache to fill. Required on the server, where it must be
+ * created per request; the shared cache is only used in the browser.
+ * @param config - Base URL, headers and interceptors, as FetchConfigProvider
+ * would give them to the component
+ */
+export function prefetchQuery<T = unknown>(
+  url: string,
+  options: UseFetchOptions<T, any> = {},
+  cache?: QueryCache,
+  config: FetchConfig = {}
+): Promise<T> {
+  // The shared cache lives as long as the server: users would see each
+  // other's data
+  if (!cache && typeof window === "undefined") {
+    return Promise.reject(
+      new Error(
+        "prefetchQuery: pass a cache created per request with createQueryCache() on the server"
+      )
+    );
+  }
+
+  return fetchQuery(
+    getFetchQueryKey(url, options, config),
+    createFetcher<T, any>(
+      url,
+      () => options,
+      () => config
+    ),
+    { ...getRetryOptions(options), cache }
+  );
+}
+
+export interface FetchCacheProviderProps {
+  /** Output of dehydrate() on the server */
+  state?: DehydratedState | null;
+  /**
+   * Server only: the request's own cache, into which `useSuspenseFetch`
+   * fetches while streaming. Ignored in the browser.
+   */
+  cache?: QueryCache;
+  children?: ReactNode;
+}
+
+/**
+ * Hands server-fetched data to every `useFetch` below it. The data is shown
+ * on the first render, both on the server and while hydrating, and queries
+ * holding it are not requested again on mount.
+ *
+ * @example
+ * ```tsx
+ * // Server
+ * const cache = createQueryCache();
+ * await prefetchQuery("/api/user", {}, cache);
+ * const state = dehydrate(cache); // embed as JSON in the page
+ *
+ * // Client and server
+ * <FetchCacheProvider state={state}>
+ *   <App />
+ * </FetchCacheProvider>
+ * ```
+ */
+export function FetchCacheProvider({
+  state = null,
+  cache,
+  children,
+}: FetchCacheProviderProps) {
+  // Fill the client cache before children render. Keys already rendered
+  // elsewhere are left to the effect so no other component updates mid-render.
+  // On the server the shared cache is never touched: requests stay isolated.
+  useMemo(() => {
+    if (typeof window !== "undefined") {
+      hydrate(state, undefined, { skipSubscribed: true });
+    }
+  }, [state]);
+
+  useEffect(() => {
+    hydrate(state);
+  }, [state]);
+
+  const value = useMemo(() => ({ state, cache }), [state, cache]);
+
+  return (
+    <HydrationContext.Provider value={value}>
+      {children}
+    </HydrationContext.Provider>
+  );
+}
+
+/**
+ * The cache queries render from: the nearest FetchCacheProvider's on the
+ * server (undefined without one), the shared one (undefined) in the browser.
+ */
+export function useRenderCache(): QueryCache | undefined {
+  const { cache } = useContext(HydrationContext);
+  return typeof window === "undefined" ? cache : undefined;
+}
+
+/**
+ * Snapshot of a key while rendering on the server or hydrating: the nearest
+ * FetchCacheProvider's dehydrated data, falling back to its cache.
+ */
+export function useServerQueryState<T>(key: QueryKey | null): QueryState<T> {
+  const { state } = useContext(HydrationContext);
+  const cache = useRenderCache();
+  // The server never reads the shared cache, which outlives requests
+  const isShared = !cache && typeof window === "undefined";
+
+  return (
+    (state && key && getDehydratedQueryState<T>(state, key)) ||
+    getQueryState<T>(isShared ? null : key, cache)
+  );
+}
@@ -1,13 +1,48 @@
-import { renderHook } from "@testing-library/react";
-import { expect, it, vi, beforeEach } from "vitest";
-import { useFetch } from "./index";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { createElement } from "react";
+import type { ReactElement, ReactNode } from "react";
+import { renderToString } from "react-dom/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  clearQueryCache,
+  createIndexedDBPersister,
+  createLocalStoragePersister,
+  createQueryCache,
+  dehydrate,
+  FetchCacheProvider,
+  FetchConfigProvider,
+  FetchError,
+  getQueryData,
+  getQueryKey,
+  hydrate,
+  HttpError,
+  invalidateQueries,
+  NetworkError,
+  ParseError,
+  persistQueryCache,
+  prefetchQuery,
+  setQueryData,
+  TimeoutError,
+  useFetch,
+  ValidationError,
+} from "./index";
+import { getRetryDelay } from "./retry";
+import { createMemoryIndexedDB } from "../useIndexedDB";
 
 let mockFetch: ReturnType<typeof vi.fn>;
+const OriginalAbortController = global.AbortController;
+
+const jsonResponse = (body: unknown) => new Response(JSON.stringify(body));
 
 beforeEach(() => {
   // Reset and reassign mockFetch before every test
   mockFetch = vi.fn();
   global.fetch = mockFetch as any;
+  clearQueryCache();
+});
+
+afterEach(() => {
+  global.AbortController = OriginalAbortController;
 });
 
 it("should abort previous request", async () => {
@@ -36,3 +71,892 @@ it("should abort previous request", async () => {
 
   expect(abortSpy).toHaveBeenCalled();
 });
+
+describe("query cache", () => {
+  it("should dedupe concurrent requests for the same key", async () => {
+    mockFetch.mockImplementation(async () => jsonResponse({ id: 1 }));
+
+    const { result: a } = renderHook(() => useFetch("/api/user"));
+    const { result: b } = renderHook(() => useFetch("/api/user"));
+
+    await waitFor(() => expect(a.current.loading).toBe(false));
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(a.current.data).toEqual({ id: 1 });
+    expect(b.current.data).toEqual({ id: 1 });
+  });
+
+  it("should key requests by URL and options", () => {
+    expect(getQueryKey("/api/todos")).toBe("/api/todos");
+    expect(getQueryKey("/api/todos", { method: "post", body: "a" })).not.toBe(
+      getQueryKey("/api/todos", { method: "post", body: "b" })
+    );
+    expect(
+      getQueryKey("/api/todos", { headers: { "X-A": "1", "x-b": "2" } })
+    ).toBe(getQueryKey("/api/todos", { headers: { "x-b": "2", "x-a": "1" } }));
+    expect(getQueryKey("/api/todos", {}, "json")).toBe("/api/todos");
+    expect(getQueryKey("/api/todos", {}, "blob")).not.toBe("/api/todos");
+  });
+
+  it("should push setQueryData updates to every subscriber", async () => {
+    mockFetch.mockImplementation(async () => jsonResponse([1]));
+
+    const { result } = renderHook(() => useFetch<number[]>("/api/list"));
+    await waitFor(() => expect(result.current.data).toEqual([1]));
+
+    act(() => {
+      setQueryData<number[]>("/api/list", (list = []) => [...list, 2]);
+    });
+
+    expect(result.current.data).toEqual([1, 2]);
+    expect(getQueryData("/api/list")).toEqual([1, 2]);
+  });
+
+  it("should refetch mounted queries when invalidated", async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse("first"))
+      .mockResolvedValueOnce(jsonResponse("second"));
+
+    const { result } = renderHook(() => useFetch<string>("/api/value"));
+    await waitFor(() => expect(result.current.data).toBe("first"));
+
+    act(() => {
+      invalidateQueries("/api/value");
+    });
+
+    await waitFor(() => expect(result.current.data).toBe("second"));
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should drop unused entries after cacheTime", async () => {
+    mockFetch.mockImplementation(async () => jsonResponse([1]));
+
+    const { result, unmount } = renderHook(() =>
+      useFetch("/api/list", { cacheTime: 50 })
+    );
+    await waitFor(() => expect(result.current.data).toEqual([1]));
+
+    unmount();
+    expect(getQueryData("/api/list")).toEqual([1]);
+
+    await waitFor(() => expect(getQueryData("/api/list")).toBeUndefined());
+  });
+
+  it("should keep entries used again before cacheTime", async () => {
+    mockFetch.mockImplementation(async () => jsonResponse([1]));
+
+    const first = renderHook(() => useFetch("/api/list", { cacheTime: 50 }));
+    await waitFor(() => expect(first.result.current.data).toEqual([1]));
+    first.unmount();
+
+    renderHook(() => useFetch("/api/list", { cacheTime: 50 }));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(getQueryData("/api/list")).toEqual([1]);
+  });
+
+  it("should expose request errors", async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 500 });
+
+    const { result } = renderHook(() => useFetch("/api/broken"));
+
+    await waitFor(() => expect(result.current.error).not.toBeNull());
+    expect(result.current.loading).toBe(false);
+    expect(result.current.data).toBeNull();
+  });
+});
+
+describe("stale-while-revalidate", () => {
+  const setOnline = (online: boolean) => {
+    Object.defineProperty(navigator, "onLine", {
+      value: online,
+      writable: true,
+      configurable: true,
+    });
+    window.dispatchEvent(new Event(online ? "online" : "offline"));
+  };
+
+  it("should serve fresh cached data without refetching", async () => {
+    mockFetch.mockImplementation(async () => jsonResponse("cached"));
+
+    const first = renderHook(() => useFetch("/api/fresh"));
+    await waitFor(() => expect(first.result.current.data).toBe("cached"));
+    first.unmount();
+
+    const { result } = renderHook(() =>
+      useFetch("/api/fresh", { swr: true, staleTime: 60_000 })
+    );
+
+    expect(result.current.data).toBe("cached");
+    expect(result.current.loading).toBe(false);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should revalidate when the window regains focus", async () => {
+    mockFetch.mockImplementation(async () => jsonResponse("value"));
+
+    const { result } = renderHook(() => useFetch("/api/focus", { swr: true }));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    act(() => {
+      window.dispatchEvent(new Event("focus"));
+    });
+
+    await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+  });
+
+  it("should not revalidate on focus outside swr mode", async () => {
+    mockFetch.mockImplementation(async () => jsonResponse("value"));
+
+    const { result } = renderHook(() => useFetch("/api/no-focus"));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    act(() => {
+      window.dispatchEvent(new Event("focus"));
+    });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should revalidate when the browser comes back online", async () => {
+    mockFetch.mockImplementation(async () => jsonResponse("value"));
+
+    const { result } = renderHook(() =>
+      useFetch("/api/reconnect", { swr: true })
+    );
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    act(() => setOnline(false));
+    act(() => setOnline(true));
+
+    await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+  });
+});
+
+describe("retry", () => {
+  it("should retry retryable failures until the request succeeds", async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 503 })
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockResolvedValueOnce(new Response(JSON.stringify("ok")));
+
+    const { result } = renderHook(() =>
+      useFetch("/api/flaky", { retry: 3, retryDelay: 0 })
+    );
+
+    await waitFor(() => expect(result.current.data).toBe("ok"));
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(result.current.retryCount).toBe(2);
+    expect(result.current.isRetrying).toBe(false);
+    expect(result.current.error).toBeNull();
+  });
+
+  it("should give up after the max attempt count", async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 500 });
+
+    const { result } = renderHook(() =>
+      useFetch("/api/down", { retry: 2, retryDelay: 0 })
+    );
+
+    await waitFor(() => expect(result.current.error).not.toBeNull());
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(result.current.retryCount).toBe(2);
+  });
+
+  it("should not retry errors rejected by shouldRetry", async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 404 });
+    const shouldRetry = vi.fn(() => false);
+
+    const { result } = renderHook(() =>
+      useFetch("/api/missing", { retry: 3, retryDelay: 0, shouldRetry })
+    );
+
+    await waitFor(() => expect(result.current.error).not.toBeNull());
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(shouldRetry).toHaveBeenCalledWith(expect.any(Error), 1);
+  });
+
+  it("should honor Retry-After over the backoff delay", () => {
+    const error = new HttpError(
+      new Response(null, { status: 429, headers: { "Retry-After": "2" } }),
+      "/api/limited"
+    );
+
+    expect(getRetryDelay(1, error, { retryDelay: 10 })).toBe(2000);
+    expect(getRetryDelay(1, new Error("x"), { retryDelay: 10 })).toBe(10);
+  });
+
+  it("should back off exponentially with jitter", () => {
+    const error = new Error("x");
+
+    for (let attempt = 1; attempt <= 4; attempt++) {
+      const max = 1000 * 2 ** (attempt - 1);
+      const delay = getRetryDelay(attempt, error);
+      expect(delay).toBeGreaterThanOrEqual(max / 2);
+      expect(delay).toBeLessThanOrEqual(max);
+    }
+  });
+});
+
+describe("errors", () => {
+  it("should throw an HttpError with status, headers and a lazily parsed body", async () => {
+    const body = { fieldErrors: { email: "taken" } };
+    mockFetch.mockResolvedValue(
+      new Response(JSON.stringify(body), {
+        status: 422,
+        statusText: "Unprocessable Entity",
+        headers: { "Content-Type": "application/json" },
+      })
+    );
+
+    const { result } = renderHook(() => useFetch("/api/signup"));
+    await waitFor(() => expect(result.current.error).not.toBeNull());
+
+    const error = result.current.error as HttpError;
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toBeInstanceOf(FetchError);
+    expect(error.status).toBe(422);
+    expect(error.statusText).toBe("Unprocessable Entity");
+    expect(error.url).toBe("/api/signup");
+    expect(error.headers.get("content-type")).toBe("application/json");
+    expect(await error.parseBody()).toEqual(body);
+    // The body is parsed once and memoized
+    expect(await error.parseBody()).toEqual(body);
+  });
+
+  it("should wrap network failures in a NetworkError", async () => {
+    const cause = new TypeError("Failed to fetch");
+    mockFetch.mockRejectedValue(cause);
+
+    const { result } = renderHook(() => useFetch("/api/offline"));
+    await waitFor(() => expect(result.current.error).not.toBeNull());
+
+    expect(result.current.error).toBeInstanceOf(NetworkError);
+    expect((result.current.error as NetworkError).cause).toBe(cause);
+  });
+
+  it("should wrap invalid bodies in a ParseError", async () => {
+    mockFetch.mockResolvedValue(new Response("<html>", { status: 200 }));
+
+    const { result } = renderHook(() => useFetch("/api/html"));
+    await waitFor(() => expect(result.current.error).not.toBeNull());
+
+    expect(result.current.error).toBeInstanceOf(ParseError);
+  });
+});
+
+describe("response parsing", () => {
+  it("should resolve empty bodies to null", async () => {
+    mockFetch.mockResolvedValue(new Response(null, { status: 204 }));
+
+    const { result } = renderHook(() =>
+      useFetch("/api/delete", { initialData: "unchanged" })
+    );
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(result.current.error).toBeNull();
+    expect(result.current.data).toBe("unchanged");
+  });
+
+  it("should read JSON from responses that only implement json()", async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ id: 1 }),
+    });
+
+    const { result } = renderHook(() => useFetch("/api/double"));
+
+    await waitFor(() => expect(result.current.data).toEqual({ id: 1 }));
+    expect(result.current.error).toBeNull();
+  });
+
+  it("should read the body as the requested responseType", async () => {
+    mockFetch.mockImplementation(async () => new Response("a,b\n1,2"));
+
+    const { result } = renderHook(() =>
+      useFetch<string>("/api/export.csv", { responseType: "text" })
+    );
+    await waitFor(() => expect(result.current.data).toBe("a,b\n1,2"));
+
+    const { result: blob } = renderHook(() =>
+      useFetch<Blob>("/api/export.csv", { responseType: "blob" })
+    );
+    await waitFor(() => expect(blob.current.data).toBeInstanceOf(Blob));
+  });
+
+  it("should cache each responseType separately", async () => {
+    mockFetch.mockImplementation(async () => new Response('{"a":1}'));
+
+    const { result: json } = renderHook(() => useFetch("/api/data"));
+    const { result: text } = renderHook(() =>
+      useFetch("/api/data", { responseType: "text" })
+    );
+
+    await waitFor(() => expect(text.current.data).toBe('{"a":1}'));
+    await waitFor(() => expect(json.current.data).toEqual({ a: 1 }));
+  });
+
+  it("should use a custom parser", async () => {
+    mockFetch.mockResolvedValue(new Response("a,b\n1,2"));
+    const parse = async (res: Response) =>
+      (await res.text()).split("\n").map((row) => row.split(","));
+
+    const { result } = renderHook(() => useFetch("/api/rows", { parse }));
+
+    await waitFor(() =>
+      expect(result.current.data).toEqual([
+        ["a", "b"],
+        ["1", "2"],
+      ])
+    );
+  });
+
+  it("should wrap parser failures in a ParseError", async () => {
+    mockFetch.mockResolvedValue(new Response("x"));
+    const parse = () => Promise.reject(new SyntaxError("bad"));
+
+    const { result } = renderHook(() => useFetch("/api/bad", { parse }));
+    await waitFor(() => expect(result.current.error).toBeInstanceOf(ParseError));
+  });
+});
+
+describe("validation and select", () => {
+  // Minimal Zod-like schema: parse() throws an error carrying `issues`
+  const userSchema = {
+    parse(data: unknown) {
+      const user = data as { profile?: { name?: unknown } };
+      if (typeof user?.profile?.name !== "string") {
+        throw Object.assign(new Error("Validation failed"), {
+          issues: [{ path: ["profile", "name"], message: "Expected string" }],
+        });
+      }
+      return user as { profile: { name: string } };
+    },
+  };
+
+  it("should return data that passes validation", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ profile: { name: "Ada" } }));
+
+    const { result } = renderHook(() =>
+      useFetch("/api/me", { validate: userSchema })
+    );
+
+    await waitFor(() =>
+      expect(result.current.data).toEqual({ profile: { name: "Ada" } })
+    );
+  });
+
+  it("should surface failures as a ValidationError with the field path", async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ profile: { name: 42 } }));
+
+    const { result } = renderHook(() =>
+      useFetch("/api/me", { validate: userSchema, retry: 3 })
+    );
+
+    await waitFor(() => expect(result.current.error).not.toBeNull());
+
+    const error = result.current.error as ValidationError;
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.path).toEqual(["profile", "name"]);
+    expect(error.issues[0].message).toBe("Expected string");
+    expect(error.message).toContain('"profile.name"');
+    // Contract violations are not retried
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should accept a plain validator function", async () => {
+    mockFetch.mockResolvedValue(jsonResponse("nope"));
+    const isNumber = (data: unknown) => {
+      if (typeof data !== "number") throw new TypeError("Expected number");
+      return data;
+    };
+
+    const { result } = renderHook(() =>
+      useFetch("/api/count", { validate: isNumber })
+    );
+
+    await waitFor(() =>
+      expect(result.current.error).toBeInstanceOf(ValidationError)
+    );
+    expect((result.current.error as ValidationError).path).toEqual([]);
+  });
+
+  it("should derive data with select while sharing the cached value", async () => {
+    mockFetch.mockImplementation(async () =>
+      jsonResponse({ items: [1, 2, 3], total: 3 })
+    );
+
+    const { result: total } = renderHook(() =>
+      useFetch("/api/items", {
+        select: (data: { items: number[]; total: number }) => data.total,
+      })
+    );
+    const { result: full } = renderHook(() =>
+      useFetch<{ items: number[] }>("/api/items")
+    );
+
+    await waitFor(() => expect(total.current.data).toBe(3));
+    expect(full.current.data).toEqual({ items: [1, 2, 3], total: 3 });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("polling", () => {
+  const wait = (ms: number) =>
+    act(() => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+
+  const setVisibility = (state: DocumentVisibilityState) => {
+    Object.defineProperty(document, "visibilityState", {
+      value: state,
+      configurable: true,
+    });
+    document.dispatchEvent(new Event("visibilitychange"));
+  };
+
+  afterEach(() => {
+    setVisibility("visible");
+  });
+
+  it("should refetch on the given interval", async () => {
+    mockFetch.mockImplementation(async () => jsonResponse("tick"));
+
+    renderHook(() => useFetch("/api/poll", { refetchInterval: 10 }));
+
+    await waitFor(() => expect(mockFetch.mock.calls.length).toBeGreaterThan(2));
+  });
+
+  it("should wait for the previous request before scheduling the next", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    mockFetch.mockImplementation(async () => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      inFlight--;
+      return jsonResponse("slow");
+    });
+
+    renderHook(() => useFetch("/api/slow", { refetchInterval: 5 }));
+
+    await wait(120);
+    expect(maxInFlight).toBe(1);
+    expect(mockFetch.mock.calls.length).toBeLessThanOrEqual(3);
+  });
+
+  it("should pause while the tab is hidden", async () => {
+    mockFetch.mockImplementation(async () => jsonResponse("tick"));
+
+    const { result } = renderHook(() =>
+      useFetch("/api/hidden", { refetchInterval: 10 })
+    );
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    act(() => setVisibility("hidden"));
+    const calls = mockFetch.mock.calls.length;
+    await wait(50);
+    expect(mockFetch.mock.calls.length).toBe(calls);
+
+    act(() => setVisibility("visible"));
+    await waitFor(() =>
+      expect(mockFetch.mock.calls.length).toBeGreaterThan(calls)
+    );
+  });
+
+  it("should stop once the interval function returns false", async () => {
+    let count = 0;
+    mockFetch.mockImplementation(async () =>
+      jsonResponse({ status: ++count >= 2 ? "done" : "running" })
+    );
+
+    const { result } = renderHook(() =>
+      useFetch<{ status: string }>("/api/job", {
+        refetchInterval: (job) => (job?.status === "done" ? false : 10),
+      })
+    );
+
+    await waitFor(() => expect(result.current.data?.status).toBe("done"));
+    await wait(50);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("SSR hydration", () => {
+  const prefetchUser = async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ name: "Ada" }));
+    const cache = createQueryCache();
+    await prefetchQuery("/api/user", {}, cache);
+    mockFetch.mockReset();
+    return dehydrate(cache);
+  };
+
+  it("prefetches into an isolated cache", async () => {
+    const state = await prefetchUser();
+
+    expect(state.queries).toEqual([
+      {
+        key: "/api/user",
+        data: { name: "Ada" },
+        updatedAt: expect.any(Number),
+      },
+    ]);
+    expect(getQueryData("/api/user")).toBeUndefined();
+  });
+
+  it("renders prefetched data on the server", async () => {
+    const state = await prefetchUser();
+
+    const User = () => {
+      const { data, loading } = useFetch<{ name: string }>("/api/user");
+      return createElement("p", null, loading ? "loading" : data?.name);
+    };
+
+    const html = renderToString(
+      createElement(FetchCacheProvider, { state }, createElement(User))
+    );
+
+    expect(html).toBe("<p>Ada</p>");
+  });
+
+  it("renders hydrated data on the first render without refetching", async () => {
+    const state = await prefetchUser();
+    const wrapper = ({ children }: { children: ReactNode }) =>
+      createElement(FetchCacheProvider, { state }, children);
+
+    const { result } = renderHook(() => useFetch("/api/user"), { wrapper });
+
+    expect(result.current.data).toEqual({ name: "Ada" });
+    expect(result.current.loading).toBe(false);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("keeps cached data newer than the dehydrated state", () => {
+    setQueryData("/api/user", { name: "Grace" });
+
+    hydrate({
+      queries: [{ key: "/api/user", data: { name: "Ada" }, updatedAt: 1 }],
+    });
+
+    expect(getQueryData("/api/user")).toEqual({ name: "Grace" });
+  });
+});
+
+describe("fetch config", () => {
+  const withConfig =
+    (...configs: Parameters<typeof FetchConfigProvider>[0][]) =>
+    ({ children }: { children: ReactNode }) =>
+      configs.reduceRight<ReactNode>(
+        (tree, config) => createElement(FetchConfigProvider, config, tree),
+        children
+      ) as ReactElement;
+
+  it("should apply the base URL and merge default headers", async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ id: 1 }));
+    const wrapper = withConfig({
+      baseUrl: "https://api.example.com/v1/",
+      headers: { Accept: "application/json", "X-Client": "web" },
+    });
+
+    const { result } = renderHook(
+      () => useFetch("/users", { headers: { "X-Client": "admin" } }),
+      { wrapper }
+    );
+
+    await waitFor(() => expect(result.current.data).toEqual({ id: 1 }));
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe("https://api.example.com/v1/users");
+    expect(new Headers(init.headers).get("accept")).toBe("application/json");
+    expect(new Headers(init.headers).get("x-client")).toBe("admin");
+  });
+
+  it("should not share entries between providers", async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse("a"))
+      .mockResolvedValueOnce(jsonResponse("b"))
+      .mockResolvedValueOnce(jsonResponse("c"));
+
+    const { result: a } = renderHook(() => useFetch("/me"), {
+      wrapper: withConfig({ baseUrl: "https://a.example.com" }),
+    });
+    const { result: b } = renderHook(() => useFetch("/me"), {
+      wrapper: withConfig({ baseUrl: "https://b.example.com" }),
+    });
+    const { result: c } = renderHook(() => useFetch("/me"), {
+      wrapper: withConfig({
+        baseUrl: "https://a.example.com",
+        headers: { Authorization: "Bearer other" },
+      }),
+    });
+
+    await waitFor(() => expect(a.current.data).toBe("a"));
+    await waitFor(() => expect(b.current.data).toBe("b"));
+    await waitFor(() => expect(c.current.data).toBe("c"));
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    // Keys start with the URL given to the hook, so filters still match it
+    const keys = dehydrate().queries.map(({ key }) => key);
+    expect(keys.filter((key) => key.startsWith("/me "))).toHaveLength(3);
+  });
+
+  it("should keep absolute URLs and use a custom fetch", async () => {
+    const customFetch = vi.fn(async () => jsonResponse("custom"));
+    const wrapper = withConfig({ baseUrl: "/api", fetch: customFetch });
+
+    const { result } = renderHook(
+      () => useFetch("https://other.example.com/data"),
+      { wrapper }
+    );
+
+    await waitFor(() => expect(result.current.data).toBe("custom"));
+    expect(customFetch).toHaveBeenCalledWith(
+      "https://other.example.com/data",
+      expect.any(Object)
+    );
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("should run async request and response interceptors in order", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 401 });
+    const onUnauthorized = vi.fn();
+    const wrapper = withConfig({
+      onRequest: [
+        async ({ url, init }) => ({
+          url,
+          init: { ...init, headers: { Authorization: "Bearer fresh" } },
+        }),
+        ({ url, init }) => ({ url: `${url}?v=2`, init }),
+      ],
+      onResponse: (res) => {
+        if (res.status === 401) onUnauthorized();
+      },
+    });
+
+    const { result } = renderHook(() => useFetch("/me"), { wrapper });
+
+    await waitFor(() => expect(result.current.error).toBeInstanceOf(HttpError));
+    expect(mockFetch).toHaveBeenCalledWith(
+      "/me?v=2",
+      expect.objectContaining({ headers: { Authorization: "Bearer fresh" } })
+    );
+    expect(onUnauthorized).toHaveBeenCalledTimes(1);
+  });
+
+  it("should let a response interceptor replace the response", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 401 });
+    const wrapper = withConfig({
+      onResponse: (res) =>
+        res.status === 401 ? jsonResponse({ guest: true }) : undefined,
+    });
+
+    const { result } = renderHook(() => useFetch("/me"), { wrapper });
+
+    await waitFor(() => expect(result.current.data).toEqual({ guest: true }));
+  });
+
+  it("should inherit the settings of a parent provider", async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse(null));
+    const wrapper = withConfig(
+      { baseUrl: "https://api.example.com", headers: { "X-App": "1" } },
+      { headers: { "X-Section": "admin" } }
+    );
+
+    renderHook(() => useFetch("/stats"), { wrapper });
+
+    await waitFor(() => expect(mockFetch).toHaveBeenCalled());
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe("https://api.example.com/stats");
+    expect(new Headers(init.headers).get("x-section")).toBe("admin");
+    expect(new Headers(init.headers).get("x-app")).toBeNull();
+  });
+});
+
+describe("timeout and abort", () => {
+  // Never answers, but rejects like fetch once its signal aborts
+  const hangingFetch = (_url: string, init: RequestInit) =>
+    new Promise((_, reject) => {
+      init.signal?.addEventListener("abort", () =>
+        reject(new DOMException("The operation was aborted.", "AbortError"))
+      );
+    });
+
+  it("should fail with a TimeoutError when the request hangs", async () => {
+    mockFetch.mockImplementation(hangingFetch);
+
+    const { result } = renderHook(() => useFetch("/api/slow", { timeout: 20 }));
+
+    await waitFor(() =>
+      expect(result.current.error).toBeInstanceOf(TimeoutError)
+    );
+    expect(result.current.loading).toBe(false);
+  });
+
+  it("should retry timed out attempts", async () => {
+    mockFetch
+      .mockImplementationOnce(hangingFetch)
+      .mockResolvedValueOnce(jsonResponse("ok"));
+
+    const { result } = renderHook(() =>
+      useFetch("/api/slow", { timeout: 20, retry: 1, retryDelay: 0 })
+    );
+
+    await waitFor(() => expect(result.current.data).toBe("ok"));
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should abort when the external signal aborts", async () => {
+    mockFetch.mockImplementation(hangingFetch);
+    const external = new AbortController();
+
+    const { result } = renderHook(() =>
+      useFetch("/api/slow", { signal: external.signal })
+    );
+
+    await waitFor(() => expect(result.current.loading).toBe(true));
+    act(() => external.abort());
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.error).toBeNull();
+    expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(true);
+  });
+
+  it("should expose a stable abort function", async () => {
+    mockFetch.mockImplementation(hangingFetch);
+
+    const { result, rerender } = renderHook(() => useFetch("/api/slow"));
+    const { abort } = result.current;
+
+    await waitFor(() => expect(mockFetch).toHaveBeenCalled());
+    rerender();
+    expect(result.current.abort).toBe(abort);
+
+    act(() => result.current.abort());
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.error).toBeNull();
+    expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(true);
+  });
+});
+
+describe("cache persistence", () => {
+  const STORAGE_KEY = "iso-hooks:query-cache";
+  let stopPersisting = () => {};
+
+  const savedCache = (timestamp = Date.now(), buster = "v1") => ({
+    buster,
+    timestamp,
+    state: {
+      queries: [
+        { key: "/api/user", data: { name: "Ada" }, updatedAt: timestamp },
+      ],
+    },
+  });
+
+  beforeEach(() => window.localStorage.clear());
+  afterEach(() => stopPersisting());
+
+  it("should save the cache after it changes", async () => {
+    const { restored, unsubscribe } = persistQueryCache({
+      persister: createLocalStoragePersister(),
+      buster: "v1",
+      throttle: 0,
+    });
+    stopPersisting = unsubscribe;
+    await restored;
+
+    setQueryData("/api/user", { name: "Ada" });
+
+    await waitFor(() =>
+      expect(
+        JSON.parse(window.localStorage.getItem(STORAGE_KEY)!)
+      ).toMatchObject({
+        buster: "v1",
+        state: { queries: [{ key: "/api/user", data: { name: "Ada" } }] },
+      })
+    );
+  });
+
+  it("should restore saved data and still revalidate it", async () => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(savedCache()));
+    mockFetch.mockResolvedValueOnce(jsonResponse({ name: "Grace" }));
+
+    const { restored, unsubscribe } = persistQueryCache({
+      persister: createLocalStoragePersister(),
+      buster: "v1",
+    });
+    stopPersisting = unsubscribe;
+    await restored;
+
+    const { result } = renderHook(() => useFetch("/api/user"));
+
+    expect(result.current.data).toEqual({ name: "Ada" });
+    await waitFor(() => expect(result.current.data).toEqual({ name: "Grace" }));
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should discard data saved by another version or too long ago", async () => {
+    for (const saved of [
+      savedCache(Date.now(), "v0"),
+      savedCache(Date.now() - 2 * 60_000),
+    ]) {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+
+      const { restored, unsubscribe } = persistQueryCache({
+        persister: createLocalStoragePersister(),
+        buster: "v1",
+        maxAge: 60_000,
+      });
+      stopPersisting = unsubscribe;
+      await restored;
+      unsubscribe();
+
+      expect(getQueryData("/api/user")).toBeUndefined();
+      expect(window.localStorage.getItem(STORAGE_KEY)).toBeNull();
+    }
+  });
+
+  it("should only save and restore queries read as JSON", async () => {
+    const blobKey = getQueryKey("/api/avatar", {}, "blob");
+    const saved = savedCache();
+    // As saved before: the Blob was JSON-encoded as {}
+    saved.state.queries.push({
+      key: blobKey,
+      data: {} as any,
+      updatedAt: saved.timestamp,
+    });
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+
+    const { restored, unsubscribe } = persistQueryCache({
+      persister: createLocalStoragePersister(),
+      buster: "v1",
+      throttle: 0,
+    });
+    stopPersisting = unsubscribe;
+    await restored;
+
+    expect(getQueryData("/api/user")).toEqual({ name: "Ada" });
+    expect(getQueryData(blobKey)).toBeUndefined();
+
+    setQueryData(blobKey, new Blob(["avatar"]));
+    setQueryData("/api/user", { name: "Grace" });
+
+    await waitFor(() =>
+      expect(
+        JSON.parse(window.localStorage.getItem(STORAGE_KEY)!).state.queries
+      ).toEqual([expect.objectContaining({ data: { name: "Grace" } })])
+    );
+  });
+
+  it("should save to and restore from IndexedDB", async () => {
+    const indexedDB = createMemoryIndexedDB();
+
+    const persister = createIndexedDBPersister({ indexedDB });
+    await persister.persist(savedCache());
+
+    const { restored, unsubscribe } = persistQueryCache({
+      persister,
+      buster: "v1",
+    });
+    stopPersisting = unsubscribe;
+    await restored;
+
+    expect(getQueryData("/api/user")).toEqual({ name: "Ada" });
+  });
+});
@@ -1,85 +1,285 @@
-import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { useEventListener } from "../useEventListener";
+import { useNetworkStatus } from "../useNetworkStatus";
+import { useUpdateEffect } from "../useUpdateEffect";
+import {
+  createFetcher,
+  getFetchQueryKey,
+  getRetryOptions,
+  type UseFetchOptions,
+} from "./fetcher";
+import { useFetchConfig } from "./config";
+import { useServerQueryState } from "./hydration";
+import {
+  abortQuery,
+  fetchQuery,
+  getQueryController,
+  getQueryState,
+  isQueryHydrated,
+  isQueryStale,
+  subscribeQuery,
+} from "./queryCache";
 
-interface UseFetchOptions<T> extends RequestInit {
-  initialData?: T;
-}
+export {
+  clearQueryCache,
+  createQueryCache,
+  dehydrate,
+  getQueryData,
+  getQueryKey,
+  hydrate,
+  invalidateQueries,
+  isJsonQueryKey,
+  setQueriesData,
+  setQueryData,
+} from "./queryCache";
+export type {
+  DehydratedState,
+  QueryCache,
+  QueryFilter,
+  QueryKey,
+  QueryState,
+} from "./queryCache";
+export { FetchCacheProvider, prefetchQuery } from "./hydration";
+export { FetchConfigProvider, useFetchConfig } from "./config";
+export type {
+  FetchConfig,
+  FetchConfigProviderProps,
+  FetchRequest,
+  RequestInterceptor,
+  ResponseInterceptor,
+} from "./config";
+export type { FetchCacheProviderProps } from "./hydration";
+export type { RetryOptions } from "./retry";
+export type { FetchResponseType, ResponseParser } from "./parseResponse";
+export type { Validator } from "./validate";
+export {
+  FetchError,
+  HttpError,
+  NetworkError,
+  ParseError,
+  TimeoutError,
+  ValidationError,
+} from "./errors";
+export type { ValidationIssue } from "./errors";
+export type { UseFetchOptions } from "./fetcher";
+export type { TransferProgress, TransferStatus } from "./progress";
+export {
+  createIndexedDBPersister,
+  createLocalStoragePersister,
+  persistQueryCache,
+} from "./persist";
+export type {
+  CachePersister,
+  IndexedDBPersisterOptions,
+  LocalStoragePersisterOptions,
+  PersistedCache,
+  PersistQueryCacheOptions,
+} from "./persist";
+
+const noop = () => {};
 
 /**
  * useFetch
  *
+ * Results are stored in a shared cache keyed by URL + options: components
+ * requesting the same key share one in-flight request and the same data.
+ * Pass `swr: true` to also revalidate on window focus and on reconnect,
+ * `retry` to retry failed requests with exponential backoff, and
+ * `refetchInterval` to poll while the tab is visible and online.
+ * `validate` checks responses at runtime and `select` derives the data.
+ * `timeout` aborts hung requests with a TimeoutError, and `signal` or
+ * `abort()` cancel the request in flight.
+ * Base URL, default headers and interceptors come from `FetchConfigProvider`.
+ * Data prefetched on the server is rendered right away inside a
+ * `FetchCacheProvider`.
+ *
  * @param url - The URL to fetch
  * @param options - Fetch options + initialData (to avoid null checks)
  * @param deps - Dependencies to trigger re-fetch
  */
-export function useFetch<T = unknown>(
+export function useFetch<T = unknown, S = T>(
   url: string | null,
-  options: UseFetchOptions<T> = {},
+  options: UseFetchOptions<T, S> = {},
   deps: any[] = []
 ) {
-  const controllerRef = useRef<AbortController | null>(null);
-
   // Keep options stable
   const optionsRef = useRef(options);
   optionsRef.current = options;
+  const config = useFetchConfig();
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  // refetch(overrideUrl) switches this hook to another URL until `url` changes
+  const [override, setOverride] = useState<{
+    base: string | null;
+    url: string;
+  } | null>(null);
+  const activeUrl = override && override.base === url ? override.url : url;
 
-  // Initialize with initialData if provided, otherwise null
-  // This solves the DX issue: passing { initialData: [] } means data is never null.
-  const [data, setData] = useState<T | null>(options.initialData ?? null);
+  const {
+    swr = false,
+    staleTime = 0,
+    cacheTime,
+    revalidateOnFocus = swr,
+    revalidateOnReconnect = swr,
+    refetchInterval = false,
+    refetchIntervalInBackground = false,
+  } = options;
+  const key = activeUrl ? getFetchQueryKey(activeUrl, options, config) : null;
 
-  const [error, setError] = useState<Error | null>(null);
-  const [loading, setLoading] = useState<boolean>(!!url); // If URL exists, we are loading initially
+  const subscribe = useCallback(
+    (callback: () => void) =>
+      key ? subscribeQuery(key, callback, cacheTime) : noop,
+    [key, cacheTime]
+  );
+  const getSnapshot = () => getQueryState<T>(key);
+  const serverState = useServerQueryState<T>(key);
+  const getServerSnapshot = () => serverState;
 
-  const execute = useCallback(
-    async (targetUrl?: string | null) => {
-      const finalUrl = targetUrl ?? url;
-      if (!finalUrl) return;
+  const state = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
 
-      if (controllerRef.current) {
-        controllerRef.current.abort();
-      }
+  const lastKeyRef = useRef<string | null>(null);
+  const keyRef = useRef(key);
+  keyRef.current = key;
 
-      const controller = new AbortController();
-      controllerRef.current = controller;
-
-      setLoading(true);
-      setError(null);
-      // Note: We deliberately do NOT reset data to null here.
-      // Keeping "stale" data while fetching new data is better UX (no flickering).
-
-      try {
-        const { initialData, ...fetchOptions } = optionsRef.current;
-
-        const res = await fetch(finalUrl, {
-          ...fetchOptions,
-          signal: controller.signal,
-        });
-
-        if (!res.ok) {
-          throw new Error(`Fetch failed: ${res.status}`);
-        }
-
-        const json = (await res.json()) as T;
-        setData(json);
-      } catch (err: any) {
-        if (err.name === "AbortError") return;
-        setError(err);
-      } finally {
-        setLoading(false);
+  const startFetch = (targetKey: string, targetUrl: string, force = false) =>
+    fetchQuery(
+      targetKey,
+      createFetcher(
+        targetUrl,
+        () => optionsRef.current,
+        () => configRef.current
+      ),
+      {
+        ...getRetryOptions(optionsRef.current),
+        force,
       }
-    },
-    [url]
+    ).catch(noop);
+
+  useEffect(() => {
+    if (!key || !activeUrl) return;
+
+    // Same key as the previous run means only `deps` changed: force a new
+    // request instead of joining the one already in flight.
+    const force = lastKeyRef.current === key;
+    lastKeyRef.current = key;
+
+    if (!force && (isQueryHydrated(key) || !isQueryStale(key, staleTime))) {
+      return;
+    }
+
+    startFetch(key, activeUrl, force);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, ...deps]);
+
+  // Background revalidation: joins a request in flight, skips fresh data
+  const revalidate = () => {
+    if (!key || !activeUrl || !isQueryStale(key, staleTime)) return;
+
+    startFetch(key, activeUrl);
+  };
+
+  useEventListener("focus", () => {
+    if (revalidateOnFocus) revalidate();
+  });
+
+  const { online } = useNetworkStatus();
+
+  useUpdateEffect(() => {
+    if (online && revalidateOnReconnect) revalidate();
+  }, [online]);
+
+  const [isDocumentVisible, setDocumentVisible] = useState(
+    () =>
+      typeof document === "undefined" || document.visibilityState !== "hidden"
   );
 
   useEffect(() => {
-    if (url) execute(url);
+    const handleVisibilityChange = () => {
+      setDocumentVisible(document.visibilityState !== "hidden");
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, []);
+
+  const interval =
+    typeof refetchInterval === "function"
+      ? refetchInterval(state.data)
+      : refetchInterval;
+  const isPollingPaused =
+    !online || (!isDocumentVisible && !refetchIntervalInBackground);
+
+  // Polling: the next request is scheduled only once the previous one settled
+  useEffect(() => {
+    if (!key || !activeUrl || !interval || interval <= 0) return;
+    if (isPollingPaused || state.isFetching) return;
+
+    const id = setTimeout(() => startFetch(key, activeUrl), interval);
+    return () => clearTimeout(id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, interval, isPollingPaused, state.isFetching, state.updatedAt]);
+
+  const refetch = useCallback(
+    async (overrideUrl?: string | null) => {
+      // Ignore non-string arguments, e.g. a click event from onClick={refetch}
+      const targetUrl = typeof overrideUrl === "string" ? overrideUrl : url;
+      if (!targetUrl) return;
+
+      if (targetUrl !== activeUrl) {
+        setOverride(targetUrl === url ? null : { base: url, url: targetUrl });
+      }
+
+      await startFetch(
+        getFetchQueryKey(targetUrl, optionsRef.current, configRef.current),
+        targetUrl,
+        true
+      );
+    },
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [url, ...deps]);
+    [url, activeUrl]
+  );
+
+  // Stable: always aborts the request of the current key
+  const abort = useCallback(() => {
+    if (keyRef.current) abortQuery(keyRef.current);
+  }, []);
+
+  const rawData = state.data ?? options.initialData;
+  const { select } = options;
+
+  const data = useMemo(
+    () =>
+      rawData === undefined || rawData === null
+        ? null
+        : select
+        ? select(rawData)
+        : (rawData as unknown as S),
+    [rawData, select]
+  );
 
   return {
     data,
-    error,
-    loading,
-    refetch: (overrideUrl?: string | null) => execute(overrideUrl),
-    controller: controllerRef.current,
+    error: state.error,
+    // Until the first request settles we are loading, even before the effect
+    // runs; an aborted first request is not loading anymore
+    loading:
+      state.isFetching ||
+      (key !== null && state.status === "idle" && lastKeyRef.current !== key),
+    retryCount: state.retryCount,
+    isRetrying: state.isRetrying,
+    refetch,
+    abort,
+    /** @deprecated Snapshot taken at render time; use abort() instead */
+    controller: key ? getQueryController(key) : null,
   };
 }
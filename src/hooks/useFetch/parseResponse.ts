@@ -0,0 +1,50 @@
+/**
+ * Built-in ways to read a response body, named after the Response methods.
+ */
+export type FetchResponseType =
+  | "json"
+  | "text"
+  | "blob"
+  | "arrayBuffer"
+  | "formData";
+
+/**
+ * Custom body reader, e.g. `(res) => res.text().then(parseCsv)`.
+ */
+export type ResponseParser<T> = (res: Response) => Promise<T>;
+
+/** Responses that never carry a body, whatever their content type claims */
+function isEmptyResponse(res: Response) {
+  return (
+    res.status === 204 ||
+    res.status === 205 ||
+    res.headers?.get("Content-Length") === "0"
+  );
+}
+
+/**
+ * Reads a response body with a custom parser or one of the built-in types.
+ * Empty bodies resolve to null instead of throwing: 204 and 205 responses,
+ * and those with a `Content-Length` of 0.
+ */
+export async function parseResponse<T>(
+  res: Response,
+  responseType: FetchResponseType = "json",
+  parse?: ResponseParser<T>
+): Promise<T> {
+  if (parse) return parse(res);
+  if (isEmptyResponse(res)) return null as T;
+
+  switch (responseType) {
+    case "json":
+      return (await res.json()) as T;
+    case "text":
+      return (await res.text()) as T;
+    case "blob":
+      return (await res.blob()) as T;
+    case "arrayBuffer":
+      return (await res.arrayBuffer()) as T;
+    case "formData":
+      return (await res.formData()) as T;
+  }
+}
@@ -0,0 +1,237 @@
+import { runRequest } from "../useIndexedDB/database";
+import type { UseLocalStorageOptions } from "../useLocalStorage";
+import {
+  dehydrate,
+  hydrate,
+  isJsonQueryKey,
+  subscribeQueryCache,
+  type DehydratedState,
+  type QueryKey,
+} from "./queryCache";
+
+/**
+ * What a persister stores: the cached data plus what is needed to tell
+ * whether it can still be used.
+ */
+export interface PersistedCache {
+  /** Version string the data was saved with */
+  buster: string;
+  /** When the data was saved (ms since epoch) */
+  timestamp: number;
+  state: DehydratedState;
+}
+
+/**
+ * Saves and restores the query cache, synchronously or not.
+ */
+export interface CachePersister {
+  persist(cache: PersistedCache): void | Promise<void>;
+  restore():
+    | PersistedCache
+    | null
+    | undefined
+    | Promise<PersistedCache | null | undefined>;
+  remove(): void | Promise<void>;
+}
+
+export interface PersistQueryCacheOptions {
+  persister: CachePersister;
+  /**
+   * Data older than this (ms) is discarded on restore.
+   * @default 24 hours
+   */
+  maxAge?: number;
+  /**
+   * Version of the persisted data. Saved data with another buster is
+   * discarded, e.g. pass the app version so deploys start fresh.
+   * @default ""
+   */
+  buster?: string;
+  /**
+   * Minimum delay (ms) between two saves.
+   * @default 1000
+   */
+  throttle?: number;
+  /**
+   * Only queries passing the filter are saved and restored. Blobs, array
+   * buffers and form data don't survive serialization, so by default only
+   * queries read as JSON are.
+   * @default isJsonQueryKey
+   */
+  filter?: (key: QueryKey) => boolean;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Restores the shared query cache from a persister, then saves it whenever it
+ * changes. Restored data is shown right away and revalidated like any cached
+ * data, according to `staleTime`.
+ *
+ * @example
+ * ```ts
+ * const { restored, unsubscribe } = persistQueryCache({
+ *   persister: createLocalStoragePersister(),
+ *   buster: APP_VERSION,
+ * });
+ * ```
+ *
+ * @returns `restored` resolves once the saved data is in the cache;
+ * `unsubscribe` stops saving
+ */
+export function persistQueryCache({
+  persister,
+  maxAge = DAY,
+  buster = "",
+  throttle = 1000,
+  filter = isJsonQueryKey,
+}: PersistQueryCacheOptions) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const save = () => {
+    timer = undefined;
+    if (stopped) return;
+
+    const state = dehydrate();
+    state.queries = state.queries.filter(({ key }) => filter(key));
+
+    Promise.resolve()
+      .then(() => persister.persist({ buster, timestamp: Date.now(), state }))
+      .catch((error) =>
+        console.warn("Error persisting the query cache:", error)
+      );
+  };
+
+  const restored = (async () => {
+    try {
+      const saved = await persister.restore();
+      if (!saved) return;
+
+      const minUpdatedAt = Date.now() - maxAge;
+
+      if (saved.buster !== buster || saved.timestamp < minUpdatedAt) {
+        await persister.remove();
+        return;
+      }
+
+      hydrate(
+        {
+          queries: saved.state.queries.filter(
+            ({ key, updatedAt }) => updatedAt >= minUpdatedAt && filter(key)
+          ),
+        },
+        undefined,
+        { fromServer: false }
+      );
+    } catch (error) {
+      console.warn("Error restoring the query cache:", error);
+    }
+  })();
+
+  // Subscribe only after restoring so the saved data isn't overwritten first
+  let unsubscribeCache = () => {};
+  restored.then(() => {
+    if (stopped) return;
+    unsubscribeCache = subscribeQueryCache(() => {
+      timer ??= setTimeout(save, throttle);
+    });
+  });
+
+  const unsubscribe = () => {
+    stopped = true;
+    clearTimeout(timer);
+    unsubscribeCache();
+  };
+
+  return { restored, unsubscribe };
+}
+
+export interface LocalStoragePersisterOptions
+  extends Pick<
+    UseLocalStorageOptions<PersistedCache>,
+    "serializer" | "deserializer"
+  > {
+  /** @default "iso-hooks:query-cache" */
+  key?: string;
+}
+
+/**
+ * Persists the cache in localStorage, serialized like useLocalStorage values
+ * (JSON by default). Errors such as a full storage are logged, not thrown.
+ */
+export function createLocalStoragePersister({
+  key = "iso-hooks:query-cache",
+  serializer = JSON.stringify,
+  deserializer = JSON.parse,
+}: LocalStoragePersisterOptions = {}): CachePersister {
+  return {
+    persist(cache) {
+      try {
+        window.localStorage.setItem(key, serializer(cache));
+      } catch (error) {
+        console.warn(`Error setting localStorage key "${key}":`, error);
+      }
+    },
+    restore() {
+      try {
+        const item = window.localStorage.getItem(key);
+        return item ? deserializer(item) : null;
+      } catch (error) {
+        console.warn(`Error reading localStorage key "${key}":`, error);
+        return null;
+      }
+    },
+    remove() {
+      try {
+        window.localStorage.removeItem(key);
+      } catch {
+        // Nothing to clean up
+      }
+    },
+  };
+}
+
+export interface IndexedDBPersisterOptions {
+  /** @default "iso-hooks" */
+  dbName?: string;
+  /** @default "query-cache" */
+  storeName?: string;
+  /**
+   * Key of the record inside the store
+   * @default "cache"
+   */
+  key?: string;
+  /** IndexedDB implementation (defaults to the global one) */
+  indexedDB?: IDBFactory;
+}
+
+/**
+ * Persists the cache in IndexedDB, suited to large payloads: data is stored
+ * as is (structured clone), without serializing it to a string.
+ */
+export function createIndexedDBPersister({
+  dbName = "iso-hooks",
+  storeName = "query-cache",
+  key = "cache",
+  indexedDB: factory,
+}: IndexedDBPersisterOptions = {}): CachePersister {
+  const run = <T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+  ) => runRequest(factory ?? window.indexedDB, dbName, storeName, mode, action);
+
+  return {
+    async persist(cache) {
+      await run("readwrite", (store) => store.put(cache, key));
+    },
+    async restore() {
+      return run<PersistedCache | undefined>("readonly", (store) =>
+        store.get(key)
+      );
+    },
+    async remove() {
+      await run("readwrite", (store) => store.delete(key));
+    },
+  };
+}
@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * Progress of an upload or download.
+ */
+export interface TransferProgress {
+  /** Bytes transferred so far */
+  loaded: number;
+  /** Total bytes, null when the size is unknown */
+  total: number | null;
+  /** 0 to 100, null when the size is unknown */
+  percent: number | null;
+  /** Bytes per second over the last second */
+  rate: number;
+}
+
+export type TransferStatus = "idle" | "pending" | "success" | "error";
+
+/** Reports `loaded` bytes out of `total` (null when unknown) */
+export type ProgressCallback = (loaded: number, total: number | null) => void;
+
+interface TransferState<T> {
+  status: TransferStatus;
+  data: T | undefined;
+  error: Error | null;
+  progress: TransferProgress;
+}
+
+const EMPTY_PROGRESS: TransferProgress = {
+  loaded: 0,
+  total: null,
+  percent: null,
+  rate: 0,
+};
+
+const INITIAL_STATE: TransferState<never> = {
+  status: "idle",
+  data: undefined,
+  error: null,
+  progress: EMPTY_PROGRESS,
+};
+
+// The rate is measured over this window so it follows speed changes
+const RATE_WINDOW = 1000;
+
+/**
+ * Turns raw byte counts into TransferProgress, measuring the rate over a
+ * sliding window.
+ */
+export function createProgressTracker(
+  onProgress: (progress: TransferProgress) => void
+): ProgressCallback {
+  const samples: [time: number, loaded: number][] = [[Date.now(), 0]];
+
+  return (loaded, total) => {
+    const now = Date.now();
+    samples.push([now, loaded]);
+
+    // Keep one sample older than the window as the starting point
+    while (samples.length > 2 && now - samples[1][0] >= RATE_WINDOW) {
+      samples.shift();
+    }
+
+    const [startTime, startLoaded] = samples[0];
+
+    onProgress({
+      loaded,
+      total,
+      percent: total ? Math.min(100, (loaded / total) * 100) : null,
+      rate:
+        now > startTime
+          ? ((loaded - startLoaded) / (now - startTime)) * 1000
+          : 0,
+    });
+  };
+}
+
+/**
+ * State and abort handling shared by useUpload and useDownload. Starting a
+ * transfer aborts the previous one, and unmounting aborts the current one.
+ */
+export function useTransfer<TArgs extends unknown[], T>(
+  perform: (
+    signal: AbortSignal,
+    onProgress: ProgressCallback,
+    ...args: TArgs
+  ) => Promise<T>
+) {
+  const [state, setState] = useState<TransferState<T>>(INITIAL_STATE);
+
+  const performRef = useRef(perform);
+  performRef.current = perform;
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const start = useCallback(async (...args: TArgs) => {
+    controllerRef.current?.abort();
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const isCurrent = () => controllerRef.current === controller;
+
+    setState({ ...INITIAL_STATE, status: "pending" });
+
+    const onProgress = createProgressTracker((progress) => {
+      if (isCurrent()) setState((prev) => ({ ...prev, progress }));
+    });
+
+    try {
+      const data = await performRef.current(
+        controller.signal,
+        onProgress,
+        ...args
+      );
+
+      if (isCurrent()) {
+        controllerRef.current = null;
+        setState((prev) => ({ ...prev, status: "success", data }));
+      }
+      return data;
+    } catch (err: any) {
+      if (isCurrent()) {
+        controllerRef.current = null;
+        // Like useFetch, an aborted transfer is not an error
+        setState((prev) =>
+          err?.name === "AbortError"
+            ? { ...prev, status: "idle" }
+            : { ...prev, status: "error", error: err }
+        );
+      }
+      throw err;
+    }
+  }, []);
+
+  const abort = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const reset = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setState(INITIAL_STATE);
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { state, start, abort, reset };
+}
@@ -0,0 +1,629 @@
+import type { FetchResponseType } from "./parseResponse";
+import { runWithRetry, type RetryOptions } from "./retry";
+
+/**
+ * Identifies a cached query. Plain GET requests are keyed by their URL alone,
+ * so `setQueryData("/api/todos", ...)` works without building a key by hand.
+ */
+export type QueryKey = string;
+
+/**
+ * Snapshot of a cached query, shared by every `useFetch` subscribed to its key.
+ */
+export interface QueryState<T = unknown> {
+  /** Last successfully fetched (or manually set) data */
+  data: T | undefined;
+  /** Error of the last failed request, cleared when a new request starts */
+  error: Error | null;
+  /** Outcome of the last settled request ("idle" until the first one settles) */
+  status: "idle" | "success" | "error";
+  /** Whether a request for this key is currently in flight */
+  isFetching: boolean;
+  /** Timestamp (ms) of the last successful update, 0 if never updated */
+  updatedAt: number;
+  /** Set by invalidateQueries, cleared by the next successful update */
+  isInvalidated: boolean;
+  /** Retries made by the current (or last) request */
+  retryCount: number;
+  /** Whether the current request failed and is being retried */
+  isRetrying: boolean;
+}
+
+/**
+ * Performs the actual request for a query. Receives the signal of the
+ * AbortController owned by the cache entry.
+ */
+export type QueryFetcher<T = unknown> = (signal: AbortSignal) => Promise<T>;
+
+/**
+ * Selects cache entries: either an exact key, a URL (matching every key built
+ * for that URL), or a predicate.
+ */
+export type QueryFilter =
+  | QueryKey
+  | ((key: QueryKey, state: QueryState) => boolean);
+
+export interface QueryEntry {
+  state: QueryState;
+  listeners: Set<() => void>;
+  promise: Promise<unknown> | null;
+  controller: AbortController | null;
+  /** Last fetcher used for this key, reused when the entry is invalidated */
+  fetcher: QueryFetcher | null;
+  retryOptions: RetryOptions;
+  /** Data came from the server render and has not been refetched yet */
+  hydrated: boolean;
+  /** Cache holding the entry, notified of its changes */
+  cache: QueryCache;
+  /** How long (ms) the entry is kept once nothing subscribes to it */
+  cacheTime: number;
+  /** Pending removal of the unused entry */
+  gcTimer: ReturnType<typeof setTimeout> | undefined;
+}
+
+/**
+ * A store of queries. Hooks read the shared default cache; the server should
+ * prefetch into a fresh cache per request so users never see each other's data.
+ */
+export interface QueryCache {
+  readonly queries: Map<QueryKey, QueryEntry>;
+  /** Notified whenever any entry changes */
+  readonly listeners: Set<() => void>;
+}
+
+/**
+ * Cached data in a JSON-serializable form, produced by dehydrate().
+ */
+export interface DehydratedState {
+  queries: { key: QueryKey; data: unknown; updatedAt: number }[];
+}
+
+const EMPTY_STATE: QueryState = {
+  data: undefined,
+  error: null,
+  status: "idle",
+  isFetching: false,
+  updatedAt: 0,
+  isInvalidated: false,
+  retryCount: 0,
+  isRetrying: false,
+};
+
+/**
+ * Creates an empty, isolated query cache.
+ */
+export function createQueryCache(): QueryCache {
+  return { queries: new Map(), listeners: new Set() };
+}
+
+/** How long unused entries are kept by default: 5 minutes */
+export const DEFAULT_CACHE_TIME = 5 * 60 * 1000;
+
+const defaultCache = createQueryCache();
+const { queries } = defaultCache;
+
+const noop = () => {};
+
+function getEntry(key: QueryKey, cache = defaultCache): QueryEntry {
+  let entry = cache.queries.get(key);
+
+  if (!entry) {
+    entry = {
+      state: EMPTY_STATE,
+      listeners: new Set(),
+      promise: null,
+      controller: null,
+      fetcher: null,
+      retryOptions: {},
+      hydrated: false,
+      cache,
+      cacheTime: DEFAULT_CACHE_TIME,
+      gcTimer: undefined,
+    };
+    cache.queries.set(key, entry);
+  }
+
+  return entry;
+}
+
+function setState(entry: QueryEntry, patch: Partial<QueryState>) {
+  // Always replace the object so useSyncExternalStore sees a new snapshot
+  entry.state = { ...entry.state, ...patch };
+  entry.listeners.forEach((listener) => listener());
+  entry.cache.listeners.forEach((listener) => listener());
+}
+
+/**
+ * Removes an entry nothing subscribes to once its cache time has passed,
+ * unless a request for it is in flight by then. Entries are kept for good on
+ * the server, where each request renders with its own cache.
+ */
+function scheduleRemoval(key: QueryKey, entry: QueryEntry) {
+  clearTimeout(entry.gcTimer);
+  entry.gcTimer = undefined;
+
+  if (
+    typeof window === "undefined" ||
+    entry.listeners.size > 0 ||
+    entry.cacheTime === Infinity
+  ) {
+    return;
+  }
+
+  entry.gcTimer = setTimeout(() => {
+    entry.gcTimer = undefined;
+    if (entry.listeners.size > 0 || entry.promise) return;
+    if (entry.cache.queries.get(key) !== entry) return;
+
+    entry.cache.queries.delete(key);
+    entry.cache.listeners.forEach((listener) => listener());
+  }, entry.cacheTime);
+}
+
+/**
+ * Subscribes to changes of any entry of a cache, e.g. to persist it.
+ */
+export function subscribeQueryCache(
+  listener: () => void,
+  cache = defaultCache
+): () => void {
+  cache.listeners.add(listener);
+  return () => {
+    cache.listeners.delete(listener);
+  };
+}
+
+/**
+ * Suffix of `useInfiniteFetch` keys, whose data is `{ pages, pageParams }`
+ * rather than the response of the URL they start with.
+ */
+export const INFINITE_QUERY_SUFFIX = " infinite";
+
+function matches(filter: QueryFilter, key: QueryKey, state: QueryState) {
+  if (typeof filter === "function") return filter(key, state);
+  return key === filter || key.startsWith(`${filter} `);
+}
+
+/**
+ * A short, non-reversible digest of a string (53-bit cyrb53, base 36).
+ */
+function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Builds the cache key for a request from its URL and the parts of the
+ * options that change the response (method, headers, string bodies, how the
+ * body is read and the base URL a relative URL is resolved against).
+ * Headers only appear as a digest: keys end up in dehydrated and persisted
+ * state, which must not carry tokens or API keys.
+ */
+export function getQueryKey(
+  url: string,
+  init: RequestInit = {},
+  responseType: FetchResponseType = "json",
+  baseUrl?: string
+): QueryKey {
+  const method = (init.method ?? "GET").toUpperCase();
+  const body = typeof init.body === "string" ? init.body : undefined;
+
+  const headers: [string, string][] = [];
+  if (init.headers) {
+    // Header names are case-insensitive and their order doesn't matter
+    new Headers(init.headers).forEach((value, name) => {
+      headers.push([name.toLowerCase(), value]);
+    });
+    headers.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  }
+
+  if (
+    method === "GET" &&
+    !headers.length &&
+    body === undefined &&
+    responseType === "json" &&
+    !baseUrl
+  ) {
+    return url;
+  }
+
+  return `${url} ${JSON.stringify({
+    method,
+    headers: headers.length ? hashString(JSON.stringify(headers)) : undefined,
+    body,
+    responseType: responseType === "json" ? undefined : responseType,
+    baseUrl,
+  })}`;
+}
+
+/**
+ * Whether a key was built for a request read as JSON (the default
+ * `responseType`), whose data survives serialization.
+ */
+export function isJsonQueryKey(key: QueryKey): boolean {
+  return !key.includes(',"responseType":"');
+}
+
+/**
+ * Returns the current snapshot for a key (a shared empty state if unknown).
+ */
+export function getQueryState<T = unknown>(
+  key: QueryKey | null,
+  cache = defaultCache
+): QueryState<T> {
+  const entry = key ? cache.queries.get(key) : undefined;
+  return (entry?.state ?? EMPTY_STATE) as QueryState<T>;
+}
+
+/**
+ * Whether a key needs fetching: it has no data yet, was invalidated, or its
+ * data is at least `staleTime` milliseconds old.
+ */
+export function isQueryStale(key: QueryKey, staleTime = 0): boolean {
+  const { updatedAt, isInvalidated } = getQueryState(key);
+  return !updatedAt || isInvalidated || Date.now() - updatedAt >= staleTime;
+}
+
+/**
+ * Whether a key holds data hydrated from the server that no request has
+ * replaced yet and that has been rendered ever since. Mounting components use
+ * it to skip requesting what the server just sent.
+ */
+export function isQueryHydrated(key: QueryKey): boolean {
+  return queries.get(key)?.hydrated ?? false;
+}
+
+/**
+ * Returns the AbortController of the request currently in flight for a key.
+ */
+export function getQueryController(key: QueryKey): AbortController | null {
+  return queries.get(key)?.controller ?? null;
+}
+
+/**
+ * Subscribes to changes of a key. When the last subscriber leaves, a request
+ * still in flight for that key is aborted, and the entry is removed after
+ * `cacheTime` milliseconds unless it is used again meanwhile.
+ */
+export function subscribeQuery(
+  key: QueryKey,
+  listener: () => void,
+  cacheTime = DEFAULT_CACHE_TIME
+) {
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  entry.cacheTime = cacheTime;
+  clearTimeout(entry.gcTimer);
+  entry.gcTimer = undefined;
+
+  return () => {
+    entry.listeners.delete(listener);
+    if (entry.listeners.size === 0) {
+      // Components mounting later should revalidate server data as usual
+      entry.hydrated = false;
+      cancelQuery(entry);
+      scheduleRemoval(key, entry);
+    }
+  };
+}
+
+/**
+ * Aborts the request in flight for a key, if any. Cached data is kept.
+ */
+export function abortQuery(key: QueryKey): void {
+  const entry = queries.get(key);
+  if (entry) cancelQuery(entry);
+}
+
+function cancelQuery(entry: QueryEntry) {
+  if (!entry.controller) return;
+
+  entry.controller.abort();
+  entry.controller = null;
+  entry.promise = null;
+  setState(entry, { isFetching: false, isRetrying: false });
+}
+
+/**
+ * Runs the fetcher for a key, or joins the request already in flight.
+ *
+ * @param key - Cache key the result is stored under
+ * @param fetcher - Performs the request
+ * @param options.force - Abort the in-flight request and start a new one
+ * @param options.refetcher - Fetcher reused by invalidateQueries, when it
+ * differs from `fetcher` (e.g. `fetcher` only loads the next page)
+ * @param options.cache - Cache to store the result in (the shared one by default)
+ * @param options - Also takes the retry settings (`retry`, `retryDelay`, ...)
+ */
+export function fetchQuery<T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  {
+    force = false,
+    refetcher = fetcher,
+    cache,
+    ...retryOptions
+  }: {
+    force?: boolean;
+    refetcher?: QueryFetcher<T>;
+    cache?: QueryCache;
+  } & RetryOptions = {}
+): Promise<T> {
+  const entry = getEntry(key, cache);
+  entry.fetcher = refetcher;
+  entry.retryOptions = retryOptions;
+
+  if (entry.promise && !force) {
+    return entry.promise as Promise<T>;
+  }
+
+  entry.controller?.abort();
+
+  const controller = new AbortController();
+  entry.controller = controller;
+  entry.hydrated = false;
+
+  // Stale data stays in place while the new request runs (no flickering)
+  setState(entry, {
+    isFetching: true,
+    error: null,
+    retryCount: 0,
+    isRetrying: false,
+  });
+
+  const isCurrent = () => entry.controller === controller;
+
+  const promise = runWithRetry(
+    () => fetcher(controller.signal),
+    retryOptions,
+    controller.signal,
+    (attempt) => {
+      if (isCurrent()) {
+        setState(entry, { retryCount: attempt, isRetrying: true });
+      }
+    }
+  ).then(
+    (data) => {
+      if (isCurrent()) {
+        entry.controller = null;
+        entry.promise = null;
+        setState(entry, {
+          data,
+          error: null,
+          status: "success",
+          isFetching: false,
+          isRetrying: false,
+          updatedAt: Date.now(),
+          isInvalidated: false,
+        });
+        scheduleRemoval(key, entry);
+      }
+      return data;
+    },
+    (error: any) => {
+      if (isCurrent()) {
+        entry.controller = null;
+        entry.promise = null;
+        setState(
+          entry,
+          error?.name === "AbortError"
+            ? { isFetching: false, isRetrying: false }
+            : {
+                error,
+                status: "error",
+                isFetching: false,
+                isRetrying: false,
+                // The invalidation was answered, even if with an error
+                isInvalidated: false,
+              }
+        );
+        scheduleRemoval(key, entry);
+      }
+      throw error;
+    }
+  );
+
+  entry.promise = promise;
+  return promise;
+}
+
+/**
+ * Reads cached data for a key without subscribing to it.
+ */
+export function getQueryData<T = unknown>(key: QueryKey): T | undefined {
+  return queries.get(key)?.state.data as T | undefined;
+}
+
+/**
+ * Writes data into the cache and notifies every subscriber of the key.
+ *
+ * @example
+ * ```ts
+ * setQueryData<Todo[]>("/api/todos", (todos = []) => [...todos, newTodo]);
+ * ```
+ */
+export function setQueryData<T = unknown>(
+  key: QueryKey,
+  updater: T | ((previous: T | undefined) => T)
+): T {
+  const entry = getEntry(key);
+  const data =
+    updater instanceof Function
+      ? updater(entry.state.data as T | undefined)
+      : updater;
+
+  setState(entry, {
+    data,
+    error: null,
+    status: "success",
+    updatedAt: Date.now(),
+    isInvalidated: false,
+  });
+  scheduleRemoval(key, entry);
+
+  return data;
+}
+
+/**
+ * Updates the data of every cached entry matching the filter and returns the
+ * previous data of each, e.g. to roll back an optimistic update. A URL
+ * doesn't match `useInfiniteFetch` entries, whose data has another shape:
+ * pass their exact key or a predicate to update them.
+ */
+export function setQueriesData<T = unknown>(
+  filter: QueryFilter,
+  updater: (previous: T | undefined) => T
+): [QueryKey, T | undefined][] {
+  const previous: [QueryKey, T | undefined][] = [];
+
+  queries.forEach((entry, key) => {
+    if (!matches(filter, key, entry.state)) return;
+    if (
+      typeof filter === "string" &&
+      key !== filter &&
+      key.endsWith(INFINITE_QUERY_SUFFIX)
+    ) {
+      return;
+    }
+
+    previous.push([key, entry.state.data as T | undefined]);
+    setQueryData<T>(key, updater);
+  });
+
+  return previous;
+}
+
+/**
+ * Marks matching entries as stale. Entries that are currently rendered by a
+ * `useFetch` are refetched right away; the others refetch on next use.
+ */
+export function invalidateQueries(filter: QueryFilter): void {
+  queries.forEach((entry, key) => {
+    if (!matches(filter, key, entry.state)) return;
+
+    setState(entry, { isInvalidated: true });
+
+    if (entry.listeners.size > 0 && entry.fetcher) {
+      fetchQuery(key, entry.fetcher, {
+        ...entry.retryOptions,
+        force: true,
+      }).catch(noop);
+    }
+  });
+}
+
+/**
+ * Aborts pending requests and drops every cached entry.
+ * Useful on logout and between tests.
+ */
+export function clearQueryCache(): void {
+  queries.forEach((entry, key) => {
+    entry.controller?.abort();
+    entry.controller = null;
+    entry.promise = null;
+    clearTimeout(entry.gcTimer);
+    entry.gcTimer = undefined;
+
+    // Mounted hooks hold on to their entry, so reset it instead of dropping it
+    if (entry.listeners.size > 0) {
+      setState(entry, EMPTY_STATE);
+    } else {
+      queries.delete(key);
+    }
+  });
+
+  defaultCache.listeners.forEach((listener) => listener());
+}
+
+/**
+ * Serializes the successfully fetched entries of a cache, e.g. to embed them
+ * in the server-rendered HTML.
+ */
+export function dehydrate(cache = defaultCache): DehydratedState {
+  const dehydrated: DehydratedState = { queries: [] };
+
+  cache.queries.forEach(({ state }, key) => {
+    if (state.updatedAt && state.data !== undefined) {
+      dehydrated.queries.push({
+        key,
+        data: state.data,
+        updatedAt: state.updatedAt,
+      });
+    }
+  });
+
+  return dehydrated;
+}
+
+/**
+ * Writes dehydrated entries into a cache. Entries already holding newer data
+ * are left alone.
+ *
+ * @param options.skipSubscribed - Leave keys rendered by a mounted hook for
+ * later, so hydrating during render never updates another component
+ * @param options.fromServer - The data was just fetched by the server render,
+ * so mounting hooks don't request it again. Off for data restored from an
+ * earlier session, which is revalidated like any cached data.
+ */
+export function hydrate(
+  dehydrated: DehydratedState | null | undefined,
+  cache = defaultCache,
+  {
+    skipSubscribed = false,
+    fromServer = true,
+  }: { skipSubscribed?: boolean; fromServer?: boolean } = {}
+): void {
+  dehydrated?.queries.forEach(({ key, data, updatedAt }) => {
+    const entry = getEntry(key, cache);
+
+    if (skipSubscribed && entry.listeners.size > 0) return;
+    if (entry.state.updatedAt >= updatedAt) return;
+
+    entry.hydrated = fromServer;
+    setState(entry, {
+      data,
+      error: null,
+      status: "success",
+      updatedAt,
+      isInvalidated: false,
+    });
+    scheduleRemoval(key, entry);
+  });
+}
+
+const hydratedStates = new WeakMap<
+  DehydratedState,
+  Map<QueryKey, QueryState>
+>();
+
+/**
+ * Snapshot of a key inside a dehydrated state (null if absent). Memoized so
+ * useSyncExternalStore gets a stable value during server rendering.
+ */
+export function getDehydratedQueryState<T = unknown>(
+  dehydrated: DehydratedState,
+  key: QueryKey
+): QueryState<T> | null {
+  let states = hydratedStates.get(dehydrated);
+
+  if (!states) {
+    states = new Map();
+    dehydrated.queries.forEach(({ key, data, updatedAt }) => {
+      states!.set(key, { ...EMPTY_STATE, data, status: "success", updatedAt });
+    });
+    hydratedStates.set(dehydrated, states);
+  }
+
+  return (states.get(key) as QueryState<T> | undefined) ?? null;
+}
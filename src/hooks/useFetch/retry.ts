@@ -0,0 +1,122 @@
+import { HttpError, NetworkError, TimeoutError } from "./errors";
+
+export interface RetryOptions {
+  /**
+   * How many times a failed request is retried (`true` means 3).
+   * @default 0
+   */
+  retry?: number | boolean;
+  /**
+   * Delay (ms) before retry number `attempt` (starting at 1). Defaults to
+   * exponential backoff with jitter. A `Retry-After` response header always
+   * takes precedence.
+   */
+  retryDelay?: number | ((attempt: number, error: Error) => number);
+  /**
+   * Decides whether a failed request is retried. Defaults to network errors,
+   * timeouts and 408, 429 and 5xx responses.
+   */
+  shouldRetry?: (error: Error, attempt: number) => boolean;
+}
+
+const BASE_DELAY = 1000;
+const MAX_DELAY = 30_000;
+
+function createAbortError() {
+  return new DOMException("The operation was aborted.", "AbortError");
+}
+
+/**
+ * Retries transient failures: network errors, timeouts, rate limiting and
+ * server errors. Client errors and parse errors would fail again.
+ */
+export function defaultShouldRetry(error: Error): boolean {
+  if (error instanceof NetworkError || error instanceof TimeoutError) {
+    return true;
+  }
+  if (!(error instanceof HttpError)) return false;
+
+  const { status } = error;
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Parses a `Retry-After` header (delay in seconds or an HTTP date) into ms.
+ */
+export function parseRetryAfter(value: string | null | undefined) {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay before retry number `attempt`: the server's `Retry-After` if present,
+ * otherwise `retryDelay`, otherwise exponential backoff where the second half
+ * of each step is random so that clients don't retry in lockstep.
+ */
+export function getRetryDelay(
+  attempt: number,
+  error: Error,
+  { retryDelay }: RetryOptions = {}
+): number {
+  if (error instanceof HttpError) {
+    const retryAfter = parseRetryAfter(error.headers.get("Retry-After"));
+    if (retryAfter !== null) return retryAfter;
+  }
+
+  if (typeof retryDelay === "number") return retryDelay;
+  if (retryDelay) return retryDelay(attempt, error);
+
+  const exponential = Math.min(MAX_DELAY, BASE_DELAY * 2 ** (attempt - 1));
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(createAbortError());
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs `task`, retrying failures according to `options` until it succeeds,
+ * the retries run out, or `signal` aborts.
+ *
+ * @param onRetry - Called with the retry number before each retry is scheduled
+ */
+export async function runWithRetry<T>(
+  task: () => Promise<T>,
+  options: RetryOptions,
+  signal: AbortSignal,
+  onRetry: (attempt: number) => void
+): Promise<T> {
+  const maxRetries =
+    options.retry === true ? 3 : Math.max(0, Number(options.retry) || 0);
+  const shouldRetry = options.shouldRetry ?? defaultShouldRetry;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error: any) {
+      if (error?.name === "AbortError" || signal.aborted) throw error;
+      if (attempt > maxRetries || !shouldRetry(error, attempt)) throw error;
+
+      onRetry(attempt);
+      await sleep(getRetryDelay(attempt, error, options), signal);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createQueryCache, dehydrate, getQueryData, prefetchQuery } from ".";
+
+let mockFetch: ReturnType<typeof vi.fn>;
+const originalFetch = global.fetch;
+
+beforeEach(() => {
+  mockFetch = vi.fn();
+  global.fetch = mockFetch as any;
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+describe("prefetchQuery on the server", () => {
+  it("should refuse to fill the shared cache", async () => {
+    await expect(prefetchQuery("/api/me")).rejects.toThrow(/createQueryCache/);
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(getQueryData("/api/me")).toBeUndefined();
+  });
+
+  it("should keep each request's data in its own cache", async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response(JSON.stringify({ name: "Alice" })))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ name: "Bob" })));
+
+    const alice = createQueryCache();
+    const bob = createQueryCache();
+    await prefetchQuery("/api/me", {}, alice);
+    await prefetchQuery("/api/me", {}, bob);
+
+    expect(dehydrate(alice).queries[0].data).toEqual({ name: "Alice" });
+    expect(dehydrate(bob).queries[0].data).toEqual({ name: "Bob" });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should keep header values out of the dehydrated state", async () => {
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ id: 1 })));
+
+    const cache = createQueryCache();
+    await prefetchQuery(
+      "/api/me",
+      { headers: { "X-Api-Key": "API_KEY" } },
+      cache,
+      { headers: { Authorization: "Bearer SERVER_SECRET" } }
+    );
+    const html = JSON.stringify(dehydrate(cache));
+
+    expect(html).toContain("/api/me");
+    expect(html).not.toContain("SERVER_SECRET");
+    expect(html).not.toContain("API_KEY");
+  });
+});
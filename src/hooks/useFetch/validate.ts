@@ -0,0 +1,26 @@
+import { ValidationError } from "./errors";
+
+/**
+ * Anything that turns unknown data into a `T` or throws: a schema with a
+ * `parse` method (Zod, Valibot wrappers, ...) or a plain function.
+ */
+export type Validator<T> =
+  | { parse: (data: unknown) => T }
+  | ((data: unknown) => T);
+
+/**
+ * Runs a validator, turning whatever it throws into a ValidationError.
+ */
+export function validateData<T>(
+  validator: Validator<T>,
+  data: unknown,
+  url: string
+): T {
+  try {
+    return typeof validator === "function"
+      ? validator(data)
+      : validator.parse(data);
+  } catch (error) {
+    throw new ValidationError(url, error);
+  }
+}
@@ -0,0 +1,80 @@
+export function promisify<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Open connections, per IndexedDB implementation and database name
+const connections = new WeakMap<
+  IDBFactory,
+  Map<string, Promise<IDBDatabase>>
+>();
+
+function open(
+  factory: IDBFactory,
+  dbName: string,
+  storeName: string,
+  version?: number
+) {
+  const request = factory.open(dbName, version);
+
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(storeName)) {
+      request.result.createObjectStore(storeName);
+    }
+  };
+
+  return promisify(request).then((db) => {
+    // Let other tabs upgrade the database, reopening it next time
+    db.onversionchange = () => {
+      db.close();
+      connections.get(factory)?.delete(dbName);
+    };
+    return db;
+  });
+}
+
+/**
+ * Opens a database, creating `storeName` when it is missing. Stores are
+ * added by upgrading the database, so several stores can share one
+ * database. The connection is reused.
+ */
+export function openStore(
+  factory: IDBFactory,
+  dbName: string,
+  storeName: string
+): Promise<IDBDatabase> {
+  let databases = connections.get(factory);
+  if (!databases) connections.set(factory, (databases = new Map()));
+  const cache = databases;
+
+  const opened = (cache.get(dbName) ?? open(factory, dbName, storeName)).then(
+    (db) => {
+      if (db.objectStoreNames.contains(storeName)) return db;
+      db.close();
+      return open(factory, dbName, storeName, db.version + 1);
+    }
+  );
+
+  cache.set(dbName, opened);
+  opened.catch(() => {
+    if (cache.get(dbName) === opened) cache.delete(dbName);
+  });
+
+  return opened;
+}
+
+/** Runs one request against `storeName` in its own transaction */
+export async function runRequest<T>(
+  factory: IDBFactory,
+  dbName: string,
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const store = (await openStore(factory, dbName, storeName))
+    .transaction(storeName, mode)
+    .objectStore(storeName);
+  return promisify(action(store));
+}
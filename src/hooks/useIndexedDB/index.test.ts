@@ -0,0 +1,158 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { createElement } from "react";
+import { renderToString } from "react-dom/server";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryIndexedDB, useIndexedDB } from ".";
+import { runRequest } from "./database";
+
+let indexedDB: IDBFactory;
+
+const read = (key: string, storeName = "state") =>
+  runRequest(indexedDB, "iso-hooks", storeName, "readonly", (store) =>
+    store.get(key)
+  );
+
+const write = (key: string, value: unknown, storeName = "state") =>
+  runRequest(indexedDB, "iso-hooks", storeName, "readwrite", (store) =>
+    store.put(value, key)
+  );
+
+beforeEach(() => {
+  indexedDB = createMemoryIndexedDB();
+});
+
+describe("useIndexedDB", () => {
+  it("should load the stored value asynchronously", async () => {
+    await write("draft", { title: "Saved" });
+
+    const { result } = renderHook(() =>
+      useIndexedDB("draft", { title: "" }, { indexedDB })
+    );
+
+    expect(result.current[0]).toEqual({ title: "" });
+    expect(result.current[3]).toBe("loading");
+
+    await waitFor(() => expect(result.current[3]).toBe("ready"));
+    expect(result.current[0]).toEqual({ title: "Saved" });
+  });
+
+  it("should debounce writes", async () => {
+    const { result } = renderHook(() =>
+      useIndexedDB("count", 0, { indexedDB, debounce: 50 })
+    );
+    await waitFor(() => expect(result.current[3]).toBe("ready"));
+
+    act(() => {
+      result.current[1](1);
+      result.current[1]((prev) => prev + 1);
+    });
+
+    expect(result.current[0]).toBe(2);
+    expect(await read("count")).toBeUndefined();
+
+    await waitFor(async () => expect(await read("count")).toBe(2));
+  });
+
+  it("should keep values set while loading", async () => {
+    await write("count", 1);
+
+    const { result } = renderHook(() =>
+      useIndexedDB("count", 0, { indexedDB, debounce: 0 })
+    );
+    act(() => result.current[1](5));
+
+    await waitFor(() => expect(result.current[3]).toBe("ready"));
+    expect(result.current[0]).toBe(5);
+    await waitFor(async () => expect(await read("count")).toBe(5));
+  });
+
+  it("should sync hooks using the same key", async () => {
+    const a = renderHook(() => useIndexedDB("name", "", { indexedDB }));
+    const b = renderHook(() => useIndexedDB("name", "", { indexedDB }));
+
+    act(() => a.result.current[1]("Ada"));
+
+    expect(b.result.current[0]).toBe("Ada");
+  });
+
+  it("should reload values saved by other tabs", async () => {
+    const { result } = renderHook(() =>
+      useIndexedDB("name", "", { indexedDB })
+    );
+    await waitFor(() => expect(result.current[3]).toBe("ready"));
+
+    await write("name", "from another tab");
+    const channel = new BroadcastChannel("iso-hooks:indexeddb:iso-hooks/state");
+    channel.postMessage({ key: "name" });
+    channel.close();
+
+    await waitFor(() => expect(result.current[0]).toBe("from another tab"));
+  });
+
+  it("should save pending changes when the page is hidden", async () => {
+    const { result } = renderHook(() =>
+      useIndexedDB("draft", "", { indexedDB, debounce: 60_000 })
+    );
+    await waitFor(() => expect(result.current[3]).toBe("ready"));
+
+    act(() => result.current[1]("unsaved"));
+    Object.defineProperty(document, "visibilityState", {
+      value: "hidden",
+      configurable: true,
+    });
+    document.dispatchEvent(new Event("visibilitychange"));
+    delete (document as any).visibilityState;
+
+    await waitFor(async () => expect(await read("draft")).toBe("unsaved"));
+  });
+
+  it("should save pending changes when the page is closed", async () => {
+    const { result } = renderHook(() =>
+      useIndexedDB("draft", "", { indexedDB, debounce: 60_000 })
+    );
+    await waitFor(() => expect(result.current[3]).toBe("ready"));
+
+    act(() => result.current[1]("unsaved"));
+    window.dispatchEvent(new Event("pagehide"));
+
+    await waitFor(async () => expect(await read("draft")).toBe("unsaved"));
+  });
+
+  it("should remove the value", async () => {
+    await write("draft", "text");
+    const { result } = renderHook(() =>
+      useIndexedDB("draft", "empty", { indexedDB, debounce: 0 })
+    );
+    await waitFor(() => expect(result.current[0]).toBe("text"));
+
+    act(() => result.current[2]());
+
+    expect(result.current[0]).toBe("empty");
+    await waitFor(async () => expect(await read("draft")).toBeUndefined());
+  });
+
+  it("should add stores to an existing database", async () => {
+    await write("a", 1, "first");
+
+    const { result } = renderHook(() =>
+      useIndexedDB("a", 0, { indexedDB, storeName: "second" })
+    );
+
+    await waitFor(() => expect(result.current[3]).toBe("ready"));
+    expect(result.current[0]).toBe(0);
+    expect(await read("a", "first")).toBe(1);
+  });
+
+  it("should render the initial value on the server", () => {
+    const Component = () => {
+      const [value, , , status] = useIndexedDB("key", "initial", {
+        indexedDB,
+      });
+      return createElement("span", null, `${value} ${status}`);
+    };
+
+    expect(renderToString(createElement(Component))).toBe(
+      "<span>initial loading</span>"
+    );
+  });
+});
@@ -0,0 +1,286 @@
+import { useCallback, useSyncExternalStore } from "react";
+import { runRequest } from "./database";
+
+export { createMemoryIndexedDB } from "./memory";
+
+export type IndexedDBStatus = "loading" | "ready" | "error";
+
+export interface UseIndexedDBOptions {
+  /** @default "iso-hooks" */
+  dbName?: string;
+  /** @default "state" */
+  storeName?: string;
+  /**
+   * Changes are saved once they stop for this long (ms)
+   * @default 100
+   */
+  debounce?: number;
+  /** IndexedDB implementation (defaults to the global one) */
+  indexedDB?: IDBFactory;
+}
+
+interface EntryState {
+  value: unknown;
+  /** False while nothing is stored: the hook returns its initial value */
+  hasValue: boolean;
+  status: IndexedDBStatus;
+}
+
+interface Entry {
+  state: EntryState;
+  listeners: Set<() => void>;
+  loading: boolean;
+  /** Set locally since loading started: the loaded value is outdated */
+  dirty: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+interface Store {
+  factory: IDBFactory | null;
+  dbName: string;
+  storeName: string;
+  entries: Map<string, Entry>;
+  channel: BroadcastChannel | null;
+}
+
+const LOADING: EntryState = {
+  value: undefined,
+  hasValue: false,
+  status: "loading",
+};
+
+// Without IndexedDB, values are only kept in memory
+const NO_INDEXED_DB = {} as IDBFactory;
+
+// Entries shared by hooks in this tab, per implementation and store
+const stores = new WeakMap<IDBFactory, Map<string, Store>>();
+
+// Debounced saves not run yet, run early when the page is hidden
+const pendingSaves = new Map<Entry, () => void>();
+let isListeningForHide = false;
+
+const flushPendingSaves = () => pendingSaves.forEach((save) => save());
+
+/**
+ * Saves pending changes when the page is hidden or closed: a debounced save
+ * would never run after the tab is gone.
+ */
+function listenForHide() {
+  if (isListeningForHide) return;
+  isListeningForHide = true;
+
+  window.addEventListener("pagehide", flushPendingSaves);
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") flushPendingSaves();
+  });
+}
+
+function setState(entry: Entry, state: Partial<EntryState>) {
+  entry.state = { ...entry.state, ...state };
+  entry.listeners.forEach((listener) => listener());
+}
+
+function load(store: Store, key: string, entry: Entry) {
+  const { factory, dbName, storeName } = store;
+
+  if (!factory) {
+    setState(entry, { status: "error" });
+    return;
+  }
+
+  entry.loading = true;
+  entry.dirty = false;
+
+  runRequest(factory, dbName, storeName, "readonly", (objectStore) =>
+    objectStore.get(key)
+  )
+    .then((value) => {
+      setState(
+        entry,
+        entry.dirty
+          ? { status: "ready" }
+          : { value, hasValue: value !== undefined, status: "ready" }
+      );
+    })
+    .catch((error) => {
+      console.warn(`Error reading IndexedDB key "${key}":`, error);
+      setState(entry, { status: "error" });
+    })
+    .finally(() => {
+      entry.loading = false;
+    });
+}
+
+function getStore({
+  dbName = "iso-hooks",
+  storeName = "state",
+  indexedDB,
+}: UseIndexedDBOptions): Store {
+  const factory =
+    indexedDB ?? (typeof window !== "undefined" ? window.indexedDB : null);
+  const id = `${dbName}/${storeName}`;
+
+  let byName = stores.get(factory ?? NO_INDEXED_DB);
+  if (!byName) stores.set(factory ?? NO_INDEXED_DB, (byName = new Map()));
+
+  let store = byName.get(id);
+  if (!store) {
+    store = {
+      factory: factory ?? null,
+      dbName,
+      storeName,
+      entries: new Map(),
+      channel: null,
+    };
+    byName.set(id, store);
+
+    // Other tabs announce the keys they saved
+    if (factory && typeof BroadcastChannel !== "undefined") {
+      const current = store;
+      current.channel = new BroadcastChannel(`iso-hooks:indexeddb:${id}`);
+      current.channel.onmessage = ({ data }) => {
+        const entry = current.entries.get(data?.key);
+        if (entry && !entry.timer) load(current, data.key, entry);
+      };
+    }
+  }
+
+  return store;
+}
+
+function getEntry(store: Store, key: string) {
+  let entry = store.entries.get(key);
+  if (!entry) {
+    entry = {
+      state: LOADING,
+      listeners: new Set(),
+      loading: false,
+      dirty: false,
+    };
+    store.entries.set(key, entry);
+  }
+  return entry;
+}
+
+/** Saves the entry's current value (or its removal) */
+function save(store: Store, key: string, entry: Entry) {
+  const { factory, dbName, storeName, channel } = store;
+  clearTimeout(entry.timer);
+  entry.timer = undefined;
+  pendingSaves.delete(entry);
+  if (!factory) return;
+
+  const { value, hasValue } = entry.state;
+
+  const written: Promise<unknown> = hasValue
+    ? runRequest(factory, dbName, storeName, "readwrite", (objectStore) =>
+        objectStore.put(value, key)
+      )
+    : runRequest(factory, dbName, storeName, "readwrite", (objectStore) =>
+        objectStore.delete(key)
+      );
+
+  written
+    .then(() => channel?.postMessage({ key }))
+    .catch((error) =>
+      console.warn(`Error setting IndexedDB key "${key}":`, error)
+    );
+}
+
+/**
+ * useIndexedDB
+ *
+ * Like `useLocalStorage`, but values live in IndexedDB: they can be large
+ * and are stored as is (structured clone), without serializing them. The
+ * value loads asynchronously (`status` is "loading" until then, and on the
+ * server), changes are saved once they settle or when the page is hidden,
+ * and hooks using the same key stay in sync, across tabs too.
+ *
+ * @example
+ * ```tsx
+ * const [draft, setDraft, removeDraft, status] = useIndexedDB<Draft>(
+ *   `draft:${docId}`,
+ *   emptyDraft
+ * );
+ *
+ * if (status === "loading") return <Spinner />;
+ * ```
+ *
+ * @param key - The record key
+ * @param initialValue - Used while nothing is stored
+ * @param options - Database, store and debounce delay
+ */
+export function useIndexedDB<T>(
+  key: string,
+  initialValue: T,
+  options: UseIndexedDBOptions = {}
+) {
+  const { dbName, storeName, debounce = 100, indexedDB } = options;
+  const store =
+    typeof window === "undefined"
+      ? null
+      : getStore({ dbName, storeName, indexedDB });
+
+  const subscribe = useCallback(
+    (listener: () => void) => {
+      if (!store) return () => {};
+
+      const entry = getEntry(store, key);
+      entry.listeners.add(listener);
+      if (entry.state.status === "loading" && !entry.loading) {
+        load(store, key, entry);
+      }
+
+      return () => {
+        entry.listeners.delete(listener);
+      };
+    },
+    [store, key]
+  );
+
+  const state = useSyncExternalStore(
+    subscribe,
+    () => store?.entries.get(key)?.state ?? LOADING,
+    () => LOADING
+  );
+
+  const update = useCallback(
+    (next: Partial<EntryState>) => {
+      if (!store) return;
+
+      const entry = getEntry(store, key);
+      entry.dirty = true;
+      setState(entry, next);
+
+      const saveNow = () => save(store, key, entry);
+      clearTimeout(entry.timer);
+      entry.timer = setTimeout(saveNow, debounce);
+      pendingSaves.set(entry, saveNow);
+      listenForHide();
+    },
+    [store, key, debounce]
+  );
+
+  const setValue = useCallback(
+    (newValue: T | ((val: T) => T)) => {
+      const current = store?.entries.get(key)?.state;
+      const previous = current?.hasValue ? (current.value as T) : initialValue;
+
+      update({
+        value: newValue instanceof Function ? newValue(previous) : newValue,
+        hasValue: true,
+      });
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [store, key, update]
+  );
+
+  const remove = useCallback(
+    () => update({ value: undefined, hasValue: false }),
+    [update]
+  );
+
+  const value = state.hasValue ? (state.value as T) : initialValue;
+
+  return [value, setValue, remove, state.status] as const;
+}
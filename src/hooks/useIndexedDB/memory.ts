@@ -0,0 +1,141 @@
+interface MemoryDatabase {
+  version: number;
+  stores: Map<string, Map<IDBValidKey, unknown>>;
+  connections: Set<{ onversionchange: (() => void) | null }>;
+}
+
+type MemoryRequest = {
+  result?: unknown;
+  error: DOMException | null;
+  onsuccess: (() => void) | null;
+  onerror: (() => void) | null;
+  onupgradeneeded?: (() => void) | null;
+};
+
+// Settles a request asynchronously, like IndexedDB does
+function request(run: (req: MemoryRequest) => unknown): MemoryRequest {
+  const req: MemoryRequest = { error: null, onsuccess: null, onerror: null };
+
+  setTimeout(() => {
+    try {
+      req.result = run(req);
+      req.onsuccess?.();
+    } catch (error) {
+      req.error = error as DOMException;
+      req.onerror?.();
+    }
+  });
+
+  return req;
+}
+
+function createStore(records: Map<IDBValidKey, unknown>) {
+  return {
+    get: (key: IDBValidKey) => request(() => structuredClone(records.get(key))),
+    put: (value: unknown, key: IDBValidKey) =>
+      request(() => {
+        records.set(key, structuredClone(value));
+        return key;
+      }),
+    delete: (key: IDBValidKey) =>
+      request(() => {
+        records.delete(key);
+      }),
+    clear: () => request(() => records.clear()),
+  };
+}
+
+function connect(database: MemoryDatabase) {
+  let closed = false;
+
+  const connection = {
+    onversionchange: null as (() => void) | null,
+    get version() {
+      return database.version;
+    },
+    objectStoreNames: {
+      contains: (name: string) => database.stores.has(name),
+      get length() {
+        return database.stores.size;
+      },
+    },
+    createObjectStore(name: string) {
+      const records = new Map<IDBValidKey, unknown>();
+      database.stores.set(name, records);
+      return createStore(records);
+    },
+    transaction(storeNames: string | string[]) {
+      if (closed) {
+        throw new DOMException(
+          "The connection is closed.",
+          "InvalidStateError"
+        );
+      }
+      return {
+        objectStore(name: string) {
+          const records = database.stores.get(name);
+          if (!records || ![storeNames].flat().includes(name)) {
+            throw new DOMException(`No store named ${name}.`, "NotFoundError");
+          }
+          return createStore(records);
+        },
+      };
+    },
+    close() {
+      closed = true;
+      database.connections.delete(connection);
+    },
+  };
+
+  database.connections.add(connection);
+  return connection;
+}
+
+/**
+ * Creates an IndexedDB kept in memory, for tests: it covers opening and
+ * upgrading databases and the get/put/delete/clear requests the hooks use.
+ * Pass it as the `indexedDB` option.
+ */
+export function createMemoryIndexedDB(): IDBFactory {
+  const databases = new Map<string, MemoryDatabase>();
+
+  const factory = {
+    open(name: string, version?: number) {
+      return request((req) => {
+        const database = databases.get(name);
+        const oldVersion = database?.version ?? 0;
+        const newVersion = version ?? Math.max(oldVersion, 1);
+
+        if (newVersion < oldVersion) {
+          throw new DOMException(
+            `The database is at version ${oldVersion}.`,
+            "VersionError"
+          );
+        }
+
+        const target = database ?? {
+          version: 0,
+          stores: new Map(),
+          connections: new Set(),
+        };
+        databases.set(name, target);
+
+        if (newVersion === oldVersion) return connect(target);
+
+        target.connections.forEach((other) => other.onversionchange?.());
+        target.version = newVersion;
+        const connection = connect(target);
+        req.result = connection;
+        req.onupgradeneeded?.();
+        return connection;
+      });
+    },
+    deleteDatabase(name: string) {
+      return request(() => {
+        databases.delete(name);
+      });
+    },
+  };
+
+  return factory as unknown as IDBFactory;
+}
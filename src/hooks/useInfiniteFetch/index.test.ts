@@ -0,0 +1,217 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { createElement } from "react";
+import { hydrateRoot } from "react-dom/client";
+import { renderToString } from "react-dom/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useInfiniteFetch, useInfiniteSentinel } from ".";
+import { clearQueryCache, setQueryData } from "../useFetch";
+
+type Page = { items: number[]; next: number | null; prev: number | null };
+
+const PAGES: Record<number, Page> = {
+  1: { items: [1, 2], next: 2, prev: null },
+  2: { items: [3, 4], next: 3, prev: 1 },
+  3: { items: [5], next: null, prev: 2 },
+};
+
+let mockFetch: ReturnType<typeof vi.fn>;
+
+const getUrl = (page: number) => `/api/items?page=${page}`;
+const pageOptions = {
+  initialPageParam: 1,
+  getNextPageParam: (lastPage: Page) => lastPage.next,
+  getPreviousPageParam: (firstPage: Page) => firstPage.prev,
+};
+
+beforeEach(() => {
+  clearQueryCache();
+  mockFetch = vi.fn(async (url: string) => {
+    const page = Number(
+      new URL(url, "http://localhost").searchParams.get("page")
+    );
+    return new Response(JSON.stringify(PAGES[page]));
+  });
+  global.fetch = mockFetch as any;
+});
+
+describe("useInfiniteFetch", () => {
+  it("should load the first page on mount", async () => {
+    const { result } = renderHook(() => useInfiniteFetch(getUrl, pageOptions));
+
+    expect(result.current.loading).toBe(true);
+    await waitFor(() => expect(result.current.pages).toEqual([PAGES[1]]));
+
+    expect(result.current.data?.pageParams).toEqual([1]);
+    expect(result.current.hasNextPage).toBe(true);
+    expect(result.current.hasPreviousPage).toBe(false);
+  });
+
+  it("should append pages until there is no next page", async () => {
+    const { result } = renderHook(() => useInfiniteFetch(getUrl, pageOptions));
+    await waitFor(() => expect(result.current.pages).toHaveLength(1));
+
+    act(() => {
+      result.current.fetchNextPage();
+    });
+    expect(result.current.isFetchingNextPage).toBe(true);
+    expect(result.current.loading).toBe(false);
+
+    await waitFor(() => expect(result.current.pages).toHaveLength(2));
+    await act(() => result.current.fetchNextPage());
+
+    expect(result.current.pages.flatMap((p) => p.items)).toEqual([
+      1, 2, 3, 4, 5,
+    ]);
+    expect(result.current.hasNextPage).toBe(false);
+    expect(result.current.isFetchingNextPage).toBe(false);
+
+    // No-op once the last page is loaded
+    await act(() => result.current.fetchNextPage());
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("should prepend previous pages", async () => {
+    const { result } = renderHook(() =>
+      useInfiniteFetch(getUrl, { ...pageOptions, initialPageParam: 2 })
+    );
+    await waitFor(() => expect(result.current.hasPreviousPage).toBe(true));
+
+    await act(() => result.current.fetchPreviousPage());
+
+    expect(result.current.data?.pageParams).toEqual([1, 2]);
+    expect(result.current.hasPreviousPage).toBe(false);
+  });
+
+  it("should abort a page request that gets superseded", async () => {
+    const { result } = renderHook(() => useInfiniteFetch(getUrl, pageOptions));
+    await waitFor(() => expect(result.current.pages).toHaveLength(1));
+
+    let pendingSignal: AbortSignal | undefined;
+    mockFetch.mockImplementationOnce((_url: string, init: RequestInit) => {
+      pendingSignal = init.signal!;
+      return new Promise(() => {});
+    });
+
+    act(() => {
+      result.current.fetchNextPage();
+    });
+    await waitFor(() => expect(pendingSignal).toBeDefined());
+
+    await act(() => result.current.refetch());
+
+    expect(pendingSignal!.aborted).toBe(true);
+    expect(result.current.pages).toEqual([PAGES[1]]);
+  });
+
+  it("should refetch every loaded page", async () => {
+    const { result } = renderHook(() => useInfiniteFetch(getUrl, pageOptions));
+    await waitFor(() => expect(result.current.pages).toHaveLength(1));
+    await act(() => result.current.fetchNextPage());
+
+    mockFetch.mockClear();
+    await act(() => result.current.refetch());
+
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+      getUrl(1),
+      getUrl(2),
+    ]);
+    expect(result.current.pages).toHaveLength(2);
+  });
+});
+
+describe("useInfiniteSentinel", () => {
+  let observerCallback: IntersectionObserverCallback;
+
+  beforeEach(() => {
+    window.IntersectionObserver = class {
+      constructor(callback: IntersectionObserverCallback) {
+        observerCallback = callback;
+      }
+      observe = vi.fn();
+      disconnect = vi.fn();
+      unobserve = vi.fn();
+      takeRecords = vi.fn();
+    } as any;
+  });
+
+  afterEach(() => {
+    delete (window as any).IntersectionObserver;
+  });
+
+  it("should hydrate without the client cache's pages", async () => {
+    const Items = () => {
+      const { pages } = useInfiniteFetch(getUrl, pageOptions);
+      return createElement("span", null, pages.length);
+    };
+    const container = document.createElement("div");
+    container.innerHTML = renderToString(createElement(Items));
+    // Restored on the client, e.g. by persistQueryCache
+    setQueryData(`${getUrl(1)} infinite`, {
+      pages: [PAGES[1]],
+      pageParams: [1],
+    });
+    const onRecoverableError = vi.fn();
+
+    const root = await act(async () =>
+      hydrateRoot(container, createElement(Items), { onRecoverableError })
+    );
+
+    expect(container.innerHTML).toBe("<span>1</span>");
+    expect(onRecoverableError).not.toHaveBeenCalled();
+    act(() => root.unmount());
+  });
+
+  it("should fetch the next page when the sentinel becomes visible", () => {
+    const ref = { current: document.createElement("div") };
+    const query = {
+      hasNextPage: true,
+      isFetchingNextPage: false,
+      fetchNextPage: vi.fn(),
+    };
+
+    renderHook(() => useInfiniteSentinel(ref, query));
+    expect(query.fetchNextPage).not.toHaveBeenCalled();
+
+    act(() => {
+      observerCallback(
+        [{ isIntersecting: true } as IntersectionObserverEntry],
+        {} as IntersectionObserver
+      );
+    });
+
+    expect(query.fetchNextPage).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not fetch when there is no next page or after an error", () => {
+    const ref = { current: document.createElement("div") };
+    const fetchNextPage = vi.fn();
+
+    const { rerender } = renderHook(
+      (query) => useInfiniteSentinel(ref, query),
+      {
+        initialProps: {
+          hasNextPage: false,
+          isFetchingNextPage: false,
+          fetchNextPage,
+          error: null as Error | null,
+        },
+      }
+    );
+
+    act(() => {
+      observerCallback(
+        [{ isIntersecting: true } as IntersectionObserverEntry],
+        {} as IntersectionObserver
+      );
+    });
+
+    rerender({
+      hasNextPage: true,
+      isFetchingNextPage: false,
+      fetchNextPage,
+      error: new Error("boom"),
+    });
+
+    expect(fetchNextPage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,333 @@
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import type { RefObject } from "react";
+import { useIntersectionObserver } from "../useIntersectionObserver";
+import { useFetchConfig } from "../useFetch/config";
+import {
+  createFetcher,
+  getFetchQueryKey,
+  getRetryOptions,
+  type UseFetchOptions,
+} from "../useFetch/fetcher";
+import {
+  fetchQuery,
+  getQueryData,
+  getQueryState,
+  INFINITE_QUERY_SUFFIX,
+  isQueryStale,
+  subscribeQuery,
+  type QueryFetcher,
+} from "../useFetch/queryCache";
+
+/**
+ * Loaded pages, in display order, with the param each one was fetched with.
+ */
+export interface InfiniteData<TPage, TParam> {
+  pages: TPage[];
+  pageParams: TParam[];
+}
+
+export interface UseInfiniteFetchOptions<TPage, TParam>
+  extends Omit<
+    UseFetchOptions<TPage>,
+    | "initialData"
+    | "select"
+    | "swr"
+    | "revalidateOnFocus"
+    | "revalidateOnReconnect"
+    | "refetchInterval"
+    | "refetchIntervalInBackground"
+  > {
+  /** Param of the first page to load */
+  initialPageParam: TParam;
+  /** Param of the page after `lastPage`; null or undefined when there is none */
+  getNextPageParam: (
+    lastPage: TPage,
+    allPages: TPage[],
+    lastPageParam: TParam
+  ) => TParam | null | undefined;
+  /** Param of the page before `firstPage`; null or undefined when there is none */
+  getPreviousPageParam?: (
+    firstPage: TPage,
+    allPages: TPage[],
+    firstPageParam: TParam
+  ) => TParam | null | undefined;
+}
+
+type FetchDirection = "next" | "previous" | null;
+
+const noop = () => {};
+
+/**
+ * useInfiniteFetch
+ *
+ * Paginated / infinite-scroll queries on top of the `useFetch` cache. Pages
+ * are stored as one cache entry, so a page request that gets superseded
+ * (e.g. by a refetch) is aborted like any other `useFetch` request.
+ *
+ * @example
+ * ```tsx
+ * const { pages, fetchNextPage, hasNextPage } = useInfiniteFetch(
+ *   (cursor) => `/api/feed?cursor=${cursor}`,
+ *   {
+ *     initialPageParam: "",
+ *     getNextPageParam: (lastPage: FeedPage) => lastPage.nextCursor,
+ *   }
+ * );
+ * ```
+ *
+ * @param getUrl - Builds the URL of a page from its param (null disables the query)
+ * @param options - Page params + the same fetch options as useFetch
+ * @param deps - Dependencies to trigger re-fetch
+ */
+export function useInfiniteFetch<TPage = unknown, TParam = number>(
+  getUrl: (pageParam: TParam) => string | null,
+  options: UseInfiniteFetchOptions<TPage, TParam>,
+  deps: any[] = []
+) {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const getUrlRef = useRef(getUrl);
+  getUrlRef.current = getUrl;
+  const config = useFetchConfig();
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  const {
+    initialPageParam,
+    getNextPageParam,
+    getPreviousPageParam,
+    ...fetchOptions
+  } = options;
+
+  const firstUrl = getUrl(initialPageParam);
+  // Suffixed so it never collides with a plain useFetch of the first page,
+  // while invalidateQueries(url) still matches it (setQueriesData(url) doesn't)
+  const baseKey = firstUrl && getFetchQueryKey(firstUrl, fetchOptions, config);
+  const key = baseKey ? baseKey + INFINITE_QUERY_SUFFIX : null;
+
+  const { cacheTime } = fetchOptions;
+  const subscribe = useCallback(
+    (callback: () => void) =>
+      key ? subscribeQuery(key, callback, cacheTime) : noop,
+    [key, cacheTime]
+  );
+  const getSnapshot = () => getQueryState<InfiniteData<TPage, TParam>>(key);
+  // Pages are never rendered on the server: hydrate from the same empty state
+  // whatever the client cache holds, then load or show the cached pages
+  const getServerSnapshot = () =>
+    getQueryState<InfiniteData<TPage, TParam>>(null);
+
+  const state = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+
+  const [direction, setDirection] = useState<FetchDirection>(null);
+  // Only the latest page request may reset the direction
+  const callIdRef = useRef(0);
+
+  const fetchPage = (pageParam: TParam, signal: AbortSignal) => {
+    const url = getUrlRef.current(pageParam);
+    if (!url) throw new Error("useInfiniteFetch: getUrl returned no URL");
+
+    const {
+      initialPageParam,
+      getNextPageParam,
+      getPreviousPageParam,
+      ...fetchOptions
+    } = optionsRef.current;
+
+    return createFetcher<TPage, TPage>(
+      url,
+      () => fetchOptions,
+      () => configRef.current
+    )(signal);
+  };
+
+  // Reloads every loaded page in order (only the first one on initial load)
+  const refetchPages =
+    (targetKey: string): QueryFetcher<InfiniteData<TPage, TParam>> =>
+    async (signal) => {
+      const current = getQueryData<InfiniteData<TPage, TParam>>(targetKey);
+      const pageParams = current?.pageParams.length
+        ? current.pageParams
+        : [optionsRef.current.initialPageParam];
+
+      const pages: TPage[] = [];
+      for (const pageParam of pageParams) {
+        pages.push(await fetchPage(pageParam, signal));
+      }
+
+      return { pages, pageParams };
+    };
+
+  const lastKeyRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!key) return;
+
+    // Same key as the previous run means only `deps` changed
+    const force = lastKeyRef.current === key;
+    lastKeyRef.current = key;
+
+    if (!force && !isQueryStale(key, optionsRef.current.staleTime)) return;
+
+    fetchQuery(key, refetchPages(key), {
+      ...getRetryOptions(optionsRef.current),
+      force,
+    }).catch(noop);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, ...deps]);
+
+  const getPageParam = (
+    data: InfiniteData<TPage, TParam> | undefined,
+    to: "next" | "previous"
+  ) => {
+    if (!data?.pages.length) return null;
+
+    const { getNextPageParam, getPreviousPageParam } = optionsRef.current;
+    const { pages, pageParams } = data;
+
+    return to === "next"
+      ? getNextPageParam(
+          pages[pages.length - 1],
+          pages,
+          pageParams[pageParams.length - 1]
+        )
+      : getPreviousPageParam?.(pages[0], pages, pageParams[0]) ?? null;
+  };
+
+  const fetchPageInDirection = useCallback(
+    async (to: "next" | "previous") => {
+      if (!key) return;
+
+      const pageParam = getPageParam(getQueryData(key), to);
+      if (pageParam === null || pageParam === undefined) return;
+
+      const id = ++callIdRef.current;
+      setDirection(to);
+
+      // Forced: a request already in flight for this query is superseded
+      await fetchQuery<InfiniteData<TPage, TParam>>(
+        key,
+        async (signal) => {
+          const page = await fetchPage(pageParam, signal);
+          const { pages, pageParams } = getQueryData<
+            InfiniteData<TPage, TParam>
+          >(key) ?? { pages: [], pageParams: [] };
+
+          return to === "next"
+            ? {
+                pages: [...pages, page],
+                pageParams: [...pageParams, pageParam],
+              }
+            : {
+                pages: [page, ...pages],
+                pageParams: [pageParam, ...pageParams],
+              };
+        },
+        {
+          ...getRetryOptions(optionsRef.current),
+          force: true,
+          refetcher: refetchPages(key),
+        }
+      )
+        .catch(noop)
+        .finally(() => {
+          if (id === callIdRef.current) setDirection(null);
+        });
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [key]
+  );
+
+  const fetchNextPage = useCallback(
+    () => fetchPageInDirection("next"),
+    [fetchPageInDirection]
+  );
+  const fetchPreviousPage = useCallback(
+    () => fetchPageInDirection("previous"),
+    [fetchPageInDirection]
+  );
+
+  const refetch = useCallback(async () => {
+    if (!key) return;
+
+    callIdRef.current++;
+    setDirection(null);
+    await fetchQuery(key, refetchPages(key), {
+      ...getRetryOptions(optionsRef.current),
+      force: true,
+    }).catch(noop);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  const nextPageParam = getPageParam(state.data, "next");
+  const previousPageParam = getPageParam(state.data, "previous");
+
+  return {
+    data: state.data ?? null,
+    pages: state.data?.pages ?? [],
+    error: state.error,
+    loading:
+      (state.isFetching && direction === null) ||
+      (key !== null && state.status === "idle"),
+    isFetching: state.isFetching,
+    hasNextPage: nextPageParam !== null && nextPageParam !== undefined,
+    hasPreviousPage:
+      previousPageParam !== null && previousPageParam !== undefined,
+    isFetchingNextPage: state.isFetching && direction === "next",
+    isFetchingPreviousPage: state.isFetching && direction === "previous",
+    fetchNextPage,
+    fetchPreviousPage,
+    refetch,
+  };
+}
+
+interface InfiniteSentinelQuery {
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  fetchNextPage: () => unknown;
+  error?: Error | null;
+}
+
+/**
+ * Loads the next page of a `useInfiniteFetch` query whenever the sentinel
+ * element (usually placed after the last item) scrolls into view. Stops after
+ * an error so a failing page isn't requested in a loop.
+ *
+ * @example
+ * ```tsx
+ * const sentinelRef = useRef<HTMLDivElement>(null);
+ * const query = useInfiniteFetch(getUrl, options);
+ * useInfiniteSentinel(sentinelRef, query);
+ * // ...
+ * <div ref={sentinelRef} />
+ * ```
+ *
+ * @param ref - The sentinel element
+ * @param query - The value returned by useInfiniteFetch
+ * @param args - IntersectionObserver settings (start loading 200px early by default)
+ */
+export function useInfiniteSentinel(
+  ref: RefObject<Element>,
+  {
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+    error,
+  }: InfiniteSentinelQuery,
+  { rootMargin = "200px", ...args }: IntersectionObserverInit = {}
+): void {
+  const entry = useIntersectionObserver(ref, { rootMargin, ...args });
+  const isVisible = !!entry?.isIntersecting;
+
+  useEffect(() => {
+    if (isVisible && hasNextPage && !isFetchingNextPage && !error) {
+      fetchNextPage();
+    }
+  }, [isVisible, hasNextPage, isFetchingNextPage, error, fetchNextPage]);
+}
@@ -0,0 +1,92 @@
+import { renderHook, waitFor } from "@testing-library/react";
+import { afterEach, describe, expect, it } from "vitest";
+import { useLeaderElection } from ".";
+
+const locks = navigator.locks;
+
+const setLocks = (value: LockManager | undefined) =>
+  Object.defineProperty(navigator, "locks", { value, configurable: true });
+
+// Exclusive locks granted in request order
+function createLockManager() {
+  const queues = new Map<string, (() => void)[]>();
+
+  const request = (
+    name: string,
+    { signal }: LockOptions,
+    callback: () => Promise<void>
+  ) =>
+    new Promise<void>((resolve, reject) => {
+      const queue = queues.get(name) ?? [];
+      queues.set(name, queue);
+
+      const grant = () =>
+        callback().then(() => {
+          queue.shift();
+          queue[0]?.();
+          resolve();
+        });
+
+      signal?.addEventListener("abort", () => {
+        const index = queue.indexOf(grant);
+        if (index > 0) {
+          queue.splice(index, 1);
+          reject(signal.reason);
+        }
+      });
+
+      queue.push(grant);
+      if (queue.length === 1) grant();
+    });
+
+  return { request } as unknown as LockManager;
+}
+
+afterEach(() => {
+  setLocks(locks);
+});
+
+describe("useLeaderElection", () => {
+  it("should elect one leader with Web Locks, then hand over", async () => {
+    setLocks(createLockManager());
+
+    const a = renderHook(() => useLeaderElection("poller"));
+    await waitFor(() => expect(a.result.current).toBe(true));
+
+    const b = renderHook(() => useLeaderElection("poller"));
+    const other = renderHook(() => useLeaderElection("other"));
+    await waitFor(() => expect(other.result.current).toBe(true));
+    expect(b.result.current).toBe(false);
+
+    a.unmount();
+
+    await waitFor(() => expect(b.result.current).toBe(true));
+    b.unmount();
+    other.unmount();
+  });
+
+  it("should elect one leader with heartbeats without Web Locks", async () => {
+    setLocks(undefined);
+    const options = { heartbeat: 20 };
+
+    const a = renderHook(() => useLeaderElection("poller", options));
+    const b = renderHook(() => useLeaderElection("poller", options));
+
+    await waitFor(() =>
+      expect([a.result.current, b.result.current].filter(Boolean)).toHaveLength(
+        1
+      )
+    );
+    // Still one leader a few heartbeats later
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect([a.result.current, b.result.current].filter(Boolean)).toHaveLength(
+      1
+    );
+
+    const [leader, follower] = a.result.current ? [a, b] : [b, a];
+    leader.unmount();
+
+    await waitFor(() => expect(follower.result.current).toBe(true));
+    follower.unmount();
+  });
+});
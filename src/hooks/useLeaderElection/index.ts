@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { openChannel } from "../useBroadcastState/channel";
+
+export interface UseLeaderElectionOptions {
+  /**
+   * Without the Web Locks API, the leader announces itself this often (ms),
+   * and another tab takes over after two missed announcements
+   * @default 1000
+   */
+  heartbeat?: number;
+}
+
+type ElectionMessage =
+  | { type: "heartbeat"; id: string }
+  | { type: "resign"; id: string };
+
+const noop = () => {};
+
+/** Holds a Web Lock until released: only one tab holds it at a time */
+function electWithLock(
+  locks: LockManager,
+  name: string,
+  setIsLeader: (isLeader: boolean) => void
+) {
+  const controller = new AbortController();
+  let release = noop;
+
+  locks
+    .request(name, { signal: controller.signal }, () => {
+      setIsLeader(true);
+      return new Promise<void>((resolve) => {
+        release = resolve;
+      });
+    })
+    .catch(noop);
+
+  return () => {
+    controller.abort();
+    release();
+  };
+}
+
+/**
+ * Elects a leader over a channel: the leader sends heartbeats, and when
+ * they stop another tab takes over. When two tabs claim at once, the one
+ * with the smaller id wins.
+ */
+function electWithHeartbeat(
+  name: string,
+  interval: number,
+  setIsLeader: (isLeader: boolean) => void
+) {
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  const channel = openChannel<ElectionMessage>(name);
+  let isLeader = false;
+  let lastSeen = Date.now();
+
+  const lead = (value: boolean) => {
+    isLeader = value;
+    setIsLeader(value);
+  };
+
+  const unsubscribe = channel.subscribe((message) => {
+    if (message.type === "resign") {
+      lastSeen = 0;
+    } else if (message.id !== id) {
+      lastSeen = Date.now();
+      if (isLeader && message.id < id) lead(false);
+    }
+  });
+
+  const tick = () => {
+    if (!isLeader && Date.now() - lastSeen > interval * 2) lead(true);
+    if (isLeader) channel.post({ type: "heartbeat", id });
+  };
+  const timer = setInterval(tick, interval);
+
+  return () => {
+    clearInterval(timer);
+    if (isLeader) channel.post({ type: "resign", id });
+    unsubscribe();
+    channel.close();
+  };
+}
+
+/**
+ * useLeaderElection
+ *
+ * Elects one tab among those using the same name, e.g. to run a background
+ * task (polling, a WebSocket connection) once instead of in every tab. When
+ * the leader closes, another tab takes over. Uses the Web Locks API, or
+ * heartbeats over BroadcastChannel (or the storage event) without it.
+ * Never leads on the server.
+ *
+ * @example
+ * ```tsx
+ * const isLeader = useLeaderElection("notifications-poller");
+ *
+ * useInterval(pollNotifications, isLeader ? 30000 : null);
+ * ```
+ *
+ * @param name - Tabs using the same name elect one leader
+ * @param options - Heartbeat interval of the fallback
+ * @returns Whether this tab is the leader
+ */
+export function useLeaderElection(
+  name: string,
+  { heartbeat = 1000 }: UseLeaderElectionOptions = {}
+) {
+  const [isLeader, setIsLeader] = useState(false);
+
+  useEffect(() => {
+    const key = `iso-hooks:leader:${name}`;
+    const locks = typeof navigator !== "undefined" && navigator.locks;
+
+    const stop = locks
+      ? electWithLock(locks, key, setIsLeader)
+      : electWithHeartbeat(key, heartbeat, setIsLeader);
+
+    return () => {
+      stop();
+      setIsLeader(false);
+    };
+  }, [name, heartbeat]);
+
+  return isLeader;
+}
@@ -1,5 +1,5 @@
 import { renderHook, act } from "@testing-library/react";
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { useLocalStorage } from ".";
 
 // Clear localStorage before each test to ensure isolation
@@ -80,3 +80,199 @@ describe("useLocalStorage Hook", () => {
     expect(result.current[0]).toBe(15);
   });
 });
+
+describe("useLocalStorage versioning", () => {
+  interface Settings {
+    theme: { mode: string };
+  }
+
+  const migrate = (old: any, version: number): Settings =>
+    version < 1 ? { theme: { mode: old.theme } } : old;
+
+  it("should store values in a versioned envelope", () => {
+    const { result } = renderHook(() =>
+      useLocalStorage("settings", { theme: { mode: "light" } }, { version: 1 })
+    );
+
+    act(() => result.current[1]({ theme: { mode: "dark" } }));
+
+    expect(JSON.parse(window.localStorage.getItem("settings")!)).toEqual({
+      __iso: 1,
+      version: 1,
+      value: JSON.stringify({ theme: { mode: "dark" } }),
+    });
+    expect(result.current[0]).toEqual({ theme: { mode: "dark" } });
+  });
+
+  it("should migrate old values and write them back", () => {
+    // Saved before versioning, in the old shape
+    window.localStorage.setItem("settings", JSON.stringify({ theme: "dark" }));
+    const spy = vi.fn(migrate);
+
+    const { result } = renderHook(() =>
+      useLocalStorage<Settings>(
+        "settings",
+        { theme: { mode: "light" } },
+        { version: 1, migrate: spy }
+      )
+    );
+
+    expect(result.current[0]).toEqual({ theme: { mode: "dark" } });
+    expect(spy).toHaveBeenCalledWith({ theme: "dark" }, 0);
+    expect(JSON.parse(window.localStorage.getItem("settings")!)).toEqual({
+      __iso: 1,
+      version: 1,
+      value: JSON.stringify({ theme: { mode: "dark" } }),
+    });
+
+    spy.mockClear();
+    renderHook(() =>
+      useLocalStorage<Settings>(
+        "settings",
+        { theme: { mode: "light" } },
+        { version: 1, migrate: spy }
+      )
+    );
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it("should ignore other versions without migrate, keeping them stored", () => {
+    const stored = JSON.stringify({ __iso: 1, version: 2, value: '"future"' });
+    window.localStorage.setItem("key", stored);
+
+    const { result } = renderHook(() =>
+      useLocalStorage("key", "initial", { version: 1 })
+    );
+
+    expect(result.current[0]).toBe("initial");
+    expect(window.localStorage.getItem("key")).toBe(stored);
+  });
+
+  it("should read stored values shaped like an envelope as plain values", () => {
+    const draft = { version: 3, value: "Hello", expiresAt: 1000 };
+    window.localStorage.setItem("draft", JSON.stringify(draft));
+
+    const { result } = renderHook(() => useLocalStorage("draft", {}));
+
+    expect(result.current[0]).toEqual(draft);
+    expect(window.localStorage.getItem("draft")).toBe(JSON.stringify(draft));
+  });
+
+  it("should fall back to the initial value when validation fails", () => {
+    window.localStorage.setItem("count", JSON.stringify("not a number"));
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const { result } = renderHook(() =>
+      useLocalStorage("count", 0, {
+        validate: (value) => {
+          if (typeof value !== "number") throw new TypeError("Not a number");
+          return value;
+        },
+      })
+    );
+
+    expect(result.current[0]).toBe(0);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("should throw invalid values when asked to", () => {
+    window.localStorage.setItem("count", JSON.stringify("not a number"));
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const schema = {
+      parse: (value: unknown) => {
+        if (typeof value !== "number") throw new TypeError("Not a number");
+        return value;
+      },
+    };
+
+    expect(() =>
+      renderHook(() =>
+        useLocalStorage("count", 0, { validate: schema, onInvalid: "throw" })
+      )
+    ).toThrow("Not a number");
+    error.mockRestore();
+  });
+});
+
+describe("useLocalStorage expiration", () => {
+  const HOUR = 60 * 60 * 1000;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should store the expiration alongside the value", () => {
+    const { result } = renderHook(() =>
+      useLocalStorage("flags", {}, { ttl: HOUR })
+    );
+
+    act(() => result.current[1]({ beta: true }));
+
+    expect(JSON.parse(window.localStorage.getItem("flags")!)).toEqual({
+      __iso: 1,
+      expiresAt: HOUR,
+      value: JSON.stringify({ beta: true }),
+    });
+  });
+
+  it("should treat expired values as missing and remove them", () => {
+    window.localStorage.setItem(
+      "flags",
+      JSON.stringify({ __iso: 1, expiresAt: 1000, value: "true" })
+    );
+    vi.setSystemTime(2000);
+
+    const { result } = renderHook(() => useLocalStorage("flags", false));
+
+    expect(result.current[0]).toBe(false);
+    expect(window.localStorage.getItem("flags")).toBeNull();
+  });
+
+  it("should expire a value while it is displayed", () => {
+    const { result } = renderHook(() =>
+      useLocalStorage("draft", "", { expiresAt: new Date(HOUR) })
+    );
+
+    act(() => result.current[1]("hello"));
+    expect(result.current[0]).toBe("hello");
+
+    act(() => {
+      vi.advanceTimersByTime(HOUR);
+    });
+
+    expect(result.current[0]).toBe("");
+    expect(window.localStorage.getItem("draft")).toBeNull();
+  });
+
+  it("should restart the lifetime on read with sliding expiration", () => {
+    const options = { ttl: HOUR, sliding: true };
+    const { result, unmount } = renderHook(() =>
+      useLocalStorage("draft", "", options)
+    );
+    act(() => result.current[1]("hello"));
+    unmount();
+
+    vi.setSystemTime(HOUR / 2);
+    renderHook(() => useLocalStorage("draft", "", options));
+
+    expect(JSON.parse(window.localStorage.getItem("draft")!).expiresAt).toBe(
+      HOUR + HOUR / 2
+    );
+  });
+
+  it("should remove the value with remove()", () => {
+    const { result } = renderHook(() => useLocalStorage("draft", "empty"));
+
+    act(() => result.current[1]("hello"));
+    act(() => result.current[2]());
+
+    expect(result.current[0]).toBe("empty");
+    expect(window.localStorage.getItem("draft")).toBeNull();
+  });
+});
@@ -0,0 +1,207 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { useMutation } from ".";
+import { clearQueryCache, getQueryData, setQueryData } from "../useFetch";
+
+type Todo = { id: number; title: string };
+
+beforeEach(() => {
+  clearQueryCache();
+});
+
+describe("useMutation", () => {
+  it("should start idle and resolve to success", async () => {
+    const mutationFn = vi.fn(async (title: string) => ({ id: 1, title }));
+    const { result } = renderHook(() => useMutation(mutationFn));
+
+    expect(result.current.isIdle).toBe(true);
+
+    act(() => {
+      result.current.mutate("Write docs");
+    });
+
+    expect(result.current.isPending).toBe(true);
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.data).toEqual({ id: 1, title: "Write docs" });
+    expect(mutationFn).toHaveBeenCalledWith("Write docs");
+  });
+
+  it("should call lifecycle callbacks in order with the context", async () => {
+    const calls: string[] = [];
+    const { result } = renderHook(() =>
+      useMutation(async (n: number) => n * 2, {
+        onMutate: (n) => {
+          calls.push(`mutate:${n}`);
+          return "ctx";
+        },
+        onSuccess: (data, n, context) => {
+          calls.push(`success:${data}:${context}`);
+        },
+        onSettled: (data, error) => {
+          calls.push(`settled:${data}:${error}`);
+        },
+      })
+    );
+
+    await act(async () => {
+      await result.current.mutateAsync(2);
+    });
+
+    expect(calls).toEqual(["mutate:2", "success:4:ctx", "settled:4:null"]);
+  });
+
+  it("should expose errors and reject mutateAsync", async () => {
+    const failure = new Error("Conflict");
+    const onError = vi.fn();
+    const { result } = renderHook(() =>
+      useMutation<unknown, void>(() => Promise.reject(failure), { onError })
+    );
+
+    await act(async () => {
+      await expect(result.current.mutateAsync()).rejects.toBe(failure);
+    });
+
+    expect(result.current.isError).toBe(true);
+    expect(result.current.error).toBe(failure);
+    expect(onError).toHaveBeenCalledWith(failure, undefined, undefined);
+  });
+
+  it("should apply optimistic updates to cached queries", async () => {
+    setQueryData<Todo[]>("/api/todos", [{ id: 1, title: "Old" }]);
+
+    let resolve!: (todo: Todo) => void;
+    const mutationFn = vi.fn(
+      (todo: Todo) => new Promise<Todo>((r) => (resolve = r))
+    );
+    const { result } = renderHook(() =>
+      useMutation(mutationFn, {
+        optimistic: {
+          queries: "/api/todos",
+          update: (todos: Todo[], todo) =>
+            todos.map((t) => (t.id === todo.id ? todo : t)),
+        },
+      })
+    );
+
+    act(() => {
+      result.current.mutate({ id: 1, title: "New" });
+    });
+
+    // Applied before the server answers
+    expect(getQueryData("/api/todos")).toEqual([{ id: 1, title: "New" }]);
+    await waitFor(() => expect(mutationFn).toHaveBeenCalled());
+
+    await act(async () => resolve({ id: 1, title: "New" }));
+    expect(result.current.isSuccess).toBe(true);
+    expect(getQueryData("/api/todos")).toEqual([{ id: 1, title: "New" }]);
+  });
+
+  it("should leave infinite queries out of URL updates", async () => {
+    const pages = { pages: [[{ id: 1, title: "Old" }]], pageParams: [1] };
+    setQueryData<Todo[]>("/api/todos", [{ id: 1, title: "Old" }]);
+    setQueryData("/api/todos infinite", pages);
+
+    const { result } = renderHook(() =>
+      useMutation(async (todo: Todo) => todo, {
+        optimistic: {
+          queries: "/api/todos",
+          update: (todos: Todo[], todo) =>
+            todos.map((t) => (t.id === todo.id ? todo : t)),
+        },
+      })
+    );
+
+    await act(() => result.current.mutateAsync({ id: 1, title: "New" }));
+
+    expect(result.current.isSuccess).toBe(true);
+    expect(getQueryData("/api/todos")).toEqual([{ id: 1, title: "New" }]);
+    expect(getQueryData("/api/todos infinite")).toBe(pages);
+  });
+
+  it("should roll back optimistic updates on failure", async () => {
+    setQueryData<Todo[]>("/api/todos", [{ id: 1, title: "Old" }]);
+
+    const { result } = renderHook(() =>
+      useMutation((todo: Todo) => Promise.reject(new Error("Nope")), {
+        optimistic: (todo) => ({
+          queries: "/api/todos",
+          update: (todos: Todo[]) => [...todos, todo],
+        }),
+      })
+    );
+
+    await act(async () => {
+      await result.current
+        .mutateAsync({ id: 2, title: "Added" })
+        .catch(() => {});
+    });
+
+    expect(result.current.isError).toBe(true);
+    expect(getQueryData("/api/todos")).toEqual([{ id: 1, title: "Old" }]);
+  });
+
+  it("should keep a mutation that went through when a callback throws", async () => {
+    setQueryData<Todo[]>("/api/todos", [{ id: 1, title: "Old" }]);
+    const callbackError = new Error("onSuccess failed");
+    const onError = vi.fn();
+    const onSettled = vi.fn(() => {
+      throw new Error("onSettled failed");
+    });
+
+    const { result } = renderHook(() =>
+      useMutation(async (todo: Todo) => todo, {
+        optimistic: (todo) => ({
+          queries: "/api/todos",
+          update: (todos: Todo[]) => [...todos, todo],
+        }),
+        onSuccess: () => {
+          throw callbackError;
+        },
+        onError,
+        onSettled,
+      })
+    );
+
+    await act(async () => {
+      await expect(
+        result.current.mutateAsync({ id: 2, title: "Added" })
+      ).rejects.toBe(callbackError);
+    });
+
+    expect(result.current.isSuccess).toBe(true);
+    expect(getQueryData("/api/todos")).toEqual([
+      { id: 1, title: "Old" },
+      { id: 2, title: "Added" },
+    ]);
+    expect(onError).not.toHaveBeenCalled();
+    expect(onSettled).not.toHaveBeenCalled();
+  });
+
+  it("should call onSettled once when it throws", async () => {
+    const onSettled = vi.fn(() => {
+      throw new Error("onSettled failed");
+    });
+    const { result } = renderHook(() =>
+      useMutation(async () => "done", { onSettled })
+    );
+
+    await act(async () => {
+      await result.current.mutateAsync().catch(() => {});
+    });
+
+    expect(onSettled).toHaveBeenCalledTimes(1);
+    expect(result.current.isSuccess).toBe(true);
+  });
+
+  it("should reset back to idle", async () => {
+    const { result } = renderHook(() => useMutation(async () => "done"));
+
+    await act(async () => {
+      await result.current.mutateAsync();
+    });
+    act(() => result.current.reset());
+
+    expect(result.current.isIdle).toBe(true);
+    expect(result.current.data).toBeUndefined();
+  });
+});
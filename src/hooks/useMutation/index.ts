@@ -0,0 +1,209 @@
+import { useCallback, useRef, useState } from "react";
+import {
+  invalidateQueries,
+  setQueriesData,
+  setQueryData,
+  type QueryFilter,
+  type QueryKey,
+} from "../useFetch";
+
+/**
+ * Writes the expected result of a mutation into cached `useFetch` data
+ * before the server answers. Rolled back automatically if the mutation fails.
+ */
+export interface OptimisticUpdate<TVariables> {
+  /** Cache entries to update: a key, a URL, or a predicate */
+  queries: QueryFilter;
+  /** Returns the new cached data (`current` is undefined if nothing is cached) */
+  update: (current: any, variables: TVariables) => any;
+}
+
+export interface UseMutationOptions<TData, TVariables, TContext> {
+  /** Runs before the mutation; its return value is passed to the other callbacks */
+  onMutate?: (variables: TVariables) => TContext | Promise<TContext>;
+  onSuccess?: (
+    data: TData,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => unknown;
+  onError?: (
+    error: Error,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => unknown;
+  /** Runs after onSuccess or onError */
+  onSettled?: (
+    data: TData | undefined,
+    error: Error | null,
+    variables: TVariables,
+    context: TContext | undefined
+  ) => unknown;
+  /**
+   * Optimistic cache updates applied before the mutation runs. Pass a
+   * function to pick the queries from the variables.
+   */
+  optimistic?:
+    | OptimisticUpdate<TVariables>
+    | OptimisticUpdate<TVariables>[]
+    | ((
+        variables: TVariables
+      ) => OptimisticUpdate<TVariables> | OptimisticUpdate<TVariables>[]);
+  /** Queries to refetch once the mutation settles, to sync with the server */
+  invalidates?: QueryFilter | QueryFilter[];
+}
+
+export type MutationStatus = "idle" | "pending" | "success" | "error";
+
+interface MutationState<TData, TVariables> {
+  status: MutationStatus;
+  data: TData | undefined;
+  error: Error | null;
+  variables: TVariables | undefined;
+}
+
+const toArray = <T>(value: T | T[] | undefined): T[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+/**
+ * useMutation
+ *
+ * Runs POST/PUT/DELETE style requests on demand, with lifecycle callbacks
+ * and optimistic updates of the data cached by `useFetch`.
+ *
+ * @example
+ * ```tsx
+ * const { mutate, isPending } = useMutation(
+ *   (todo: Todo) =>
+ *     fetch(`/api/todos/${todo.id}`, { method: "PUT", body: JSON.stringify(todo) }),
+ *   {
+ *     optimistic: {
+ *       queries: "/api/todos",
+ *       update: (todos: Todo[] = [], todo) =>
+ *         todos.map((t) => (t.id === todo.id ? todo : t)),
+ *     },
+ *     invalidates: "/api/todos",
+ *   }
+ * );
+ * ```
+ *
+ * @param mutationFn - Performs the mutation
+ * @param options - Lifecycle callbacks, optimistic updates and invalidation
+ */
+export function useMutation<
+  TData = unknown,
+  TVariables = void,
+  TContext = unknown
+>(
+  mutationFn: (variables: TVariables) => Promise<TData>,
+  options: UseMutationOptions<TData, TVariables, TContext> = {}
+) {
+  const [state, setState] = useState<MutationState<TData, TVariables>>({
+    status: "idle",
+    data: undefined,
+    error: null,
+    variables: undefined,
+  });
+
+  // Keep the function and callbacks fresh without changing mutate's identity
+  const mutationFnRef = useRef(mutationFn);
+  mutationFnRef.current = mutationFn;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Only the latest call may update the state
+  const latestIdRef = useRef(0);
+
+  const mutateAsync = useCallback(async (variables: TVariables) => {
+    const id = ++latestIdRef.current;
+    const isLatest = () => id === latestIdRef.current;
+    const { onMutate, onSuccess, onError, onSettled, optimistic, invalidates } =
+      optionsRef.current;
+
+    setState({ status: "pending", data: undefined, error: null, variables });
+
+    const snapshots: [QueryKey, unknown][] = [];
+    let context: TContext | undefined;
+    let data: TData;
+
+    const invalidate = () =>
+      toArray(invalidates).forEach((filter) => invalidateQueries(filter));
+
+    try {
+      const updates =
+        typeof optimistic === "function" ? optimistic(variables) : optimistic;
+
+      toArray(updates).forEach(({ queries, update }) => {
+        snapshots.push(
+          ...setQueriesData(queries, (current) => update(current, variables))
+        );
+      });
+
+      if (onMutate) context = await onMutate(variables);
+
+      data = await mutationFnRef.current(variables);
+    } catch (err: any) {
+      // Roll back in reverse order so overlapping updates restore correctly
+      snapshots
+        .reverse()
+        .forEach(([key, previous]) => setQueryData(key, () => previous));
+
+      try {
+        await onError?.(err, variables, context);
+        await onSettled?.(undefined, err, variables, context);
+      } finally {
+        if (isLatest()) {
+          setState({ status: "error", data: undefined, error: err, variables });
+        }
+        invalidate();
+      }
+
+      throw err;
+    }
+
+    // The mutation went through: a throwing callback rejects mutateAsync
+    // but never rolls it back
+    try {
+      await onSuccess?.(data, variables, context);
+      await onSettled?.(data, null, variables, context);
+    } finally {
+      if (isLatest()) {
+        setState({ status: "success", data, error: null, variables });
+      }
+      invalidate();
+    }
+
+    return data;
+  }, []);
+
+  // Fire-and-forget variant: errors are reported through state and onError
+  const mutate = useCallback(
+    (variables: TVariables) => {
+      mutateAsync(variables).catch(() => {});
+    },
+    [mutateAsync]
+  );
+
+  const reset = useCallback(() => {
+    latestIdRef.current++;
+    setState({
+      status: "idle",
+      data: undefined,
+      error: null,
+      variables: undefined,
+    });
+  }, []);
+
+  return {
+    mutate,
+    mutateAsync,
+    reset,
+    data: state.data,
+    error: state.error,
+    variables: state.variables,
+    status: state.status,
+    isIdle: state.status === "idle",
+    isPending: state.status === "pending",
+    isSuccess: state.status === "success",
+    isError: state.status === "error",
+  };
+}
@@ -0,0 +1,242 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { useOfflineQueue, type QueuedRequest } from ".";
+import { HttpError } from "../useFetch";
+
+const STORAGE_KEY = "iso-hooks:offline-queue";
+
+let mockFetch: ReturnType<typeof vi.fn>;
+
+const setOnline = (online: boolean) => {
+  Object.defineProperty(navigator, "onLine", {
+    value: online,
+    writable: true,
+    configurable: true,
+  });
+  window.dispatchEvent(new Event(online ? "online" : "offline"));
+};
+
+const storedQueue = (): QueuedRequest[] =>
+  JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]");
+
+const bodies = () => mockFetch.mock.calls.map(([, init]) => init.body);
+
+beforeEach(() => {
+  window.localStorage.clear();
+  setOnline(true);
+  mockFetch = vi.fn(async () => new Response(null, { status: 204 }));
+  global.fetch = mockFetch as any;
+});
+
+describe("useOfflineQueue", () => {
+  it("should send right away when online", async () => {
+    const { result } = renderHook(() => useOfflineQueue());
+
+    let response: Response | null = null;
+    await act(async () => {
+      response = await result.current.send("/api/notes", {
+        method: "POST",
+        body: "a",
+      });
+    });
+
+    expect(response!.status).toBe(204);
+    expect(result.current.pending).toBe(0);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should queue while offline and replay in order when back online", async () => {
+    const onSuccess = vi.fn();
+    act(() => setOnline(false));
+    const { result } = renderHook(() => useOfflineQueue({ onSuccess }));
+
+    await act(async () => {
+      expect(await result.current.send("/api/notes", { body: "a" })).toBeNull();
+      await result.current.send("/api/notes/1", { method: "PUT", body: "b" });
+    });
+
+    expect(result.current.pending).toBe(2);
+    expect(storedQueue().map(({ body }) => body)).toEqual(["a", "b"]);
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    act(() => setOnline(true));
+
+    await waitFor(() => expect(result.current.pending).toBe(0));
+    expect(bodies()).toEqual(["a", "b"]);
+    expect(mockFetch.mock.calls[1][1].method).toBe("PUT");
+    expect(onSuccess.mock.calls.map(([request]) => request.body)).toEqual([
+      "a",
+      "b",
+    ]);
+  });
+
+  it("should replay a queue persisted by a previous session", async () => {
+    window.localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify([
+        {
+          id: "1",
+          url: "/api/notes",
+          method: "POST",
+          headers: {},
+          body: "saved",
+          queuedAt: 0,
+        },
+      ])
+    );
+
+    const { result } = renderHook(() => useOfflineQueue());
+
+    await waitFor(() => expect(result.current.pending).toBe(0));
+    expect(bodies()).toEqual(["saved"]);
+  });
+
+  it("should resend a conflicting request with the resolution", async () => {
+    mockFetch.mockResolvedValueOnce(new Response(null, { status: 409 }));
+    const onConflict = vi.fn(() => ({ body: "merged" }));
+    act(() => setOnline(false));
+    const { result } = renderHook(() => useOfflineQueue({ onConflict }));
+
+    await act(async () => {
+      await result.current.send("/api/notes/1", { method: "PUT", body: "b" });
+    });
+    act(() => setOnline(true));
+
+    await waitFor(() => expect(result.current.pending).toBe(0));
+    expect(onConflict).toHaveBeenCalledWith(
+      expect.objectContaining({ body: "b" }),
+      expect.any(HttpError)
+    );
+    expect(bodies()).toEqual(["b", "merged"]);
+  });
+
+  it("should give up on a request that keeps conflicting", async () => {
+    mockFetch.mockImplementation(
+      async () => new Response(null, { status: 409 })
+    );
+    const onConflict = vi.fn(() => ({ body: "merged" }));
+    const onError = vi.fn();
+    act(() => setOnline(false));
+    const { result } = renderHook(() =>
+      useOfflineQueue({ onConflict, onError, maxConflictRetries: 2 })
+    );
+
+    await act(async () => {
+      await result.current.send("/api/notes/1", { method: "PUT", body: "b" });
+    });
+    act(() => setOnline(true));
+
+    await waitFor(() => expect(result.current.pending).toBe(0));
+    expect(bodies()).toEqual(["b", "merged", "merged"]);
+    expect(onConflict).toHaveBeenCalledTimes(2);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ body: "merged" }),
+      expect.any(HttpError)
+    );
+  });
+
+  it("should not report a sent request when onSuccess throws", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const onSuccess = vi.fn(() => {
+      throw new Error("Callback failed");
+    });
+    const onError = vi.fn();
+    act(() => setOnline(false));
+    const { result } = renderHook(() =>
+      useOfflineQueue({ onSuccess, onError })
+    );
+
+    await act(async () => {
+      await result.current.send("/api/notes", { body: "a" });
+      await result.current.send("/api/notes", { body: "b" });
+    });
+    act(() => setOnline(true));
+
+    await waitFor(() => expect(result.current.pending).toBe(0));
+    expect(bodies()).toEqual(["a", "b"]);
+    expect(onSuccess).toHaveBeenCalledTimes(2);
+    expect(onError).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it("should log throwing onConflict and onError and go on", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockFetch
+      .mockResolvedValueOnce(new Response(null, { status: 409 }))
+      .mockResolvedValueOnce(new Response(null, { status: 400 }));
+    const onConflict = vi.fn(async () => {
+      throw new Error("Merge failed");
+    });
+    const onError = vi.fn(() => {
+      throw new Error("Callback failed");
+    });
+    const onSuccess = vi.fn();
+    act(() => setOnline(false));
+    const { result } = renderHook(() =>
+      useOfflineQueue({ onConflict, onError, onSuccess })
+    );
+
+    await act(async () => {
+      await result.current.send("/api/notes/1", { method: "PUT", body: "a" });
+      await result.current.send("/api/notes", { body: "bad" });
+      await result.current.send("/api/notes", { body: "good" });
+    });
+    act(() => setOnline(true));
+
+    await waitFor(() => expect(result.current.pending).toBe(0));
+    expect(bodies()).toEqual(["a", "bad", "good"]);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onSuccess).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it("should drop failed requests, report them and go on", async () => {
+    mockFetch.mockResolvedValueOnce(new Response(null, { status: 400 }));
+    const onError = vi.fn();
+    act(() => setOnline(false));
+    const { result } = renderHook(() => useOfflineQueue({ onError }));
+
+    await act(async () => {
+      await result.current.send("/api/notes", { body: "bad" });
+      await result.current.send("/api/notes", { body: "good" });
+    });
+    act(() => setOnline(true));
+
+    await waitFor(() => expect(result.current.pending).toBe(0));
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ body: "bad" }),
+      expect.any(HttpError)
+    );
+    expect(bodies()).toEqual(["bad", "good"]);
+  });
+
+  it("should keep the queue after a transient failure", async () => {
+    mockFetch.mockResolvedValueOnce(new Response(null, { status: 503 }));
+    act(() => setOnline(false));
+    const { result } = renderHook(() => useOfflineQueue());
+
+    await act(async () => {
+      await result.current.send("/api/notes", { body: "a" });
+      await result.current.send("/api/notes", { body: "b" });
+    });
+    act(() => setOnline(true));
+
+    await waitFor(() => expect(result.current.isFlushing).toBe(false));
+    await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+    expect(result.current.pending).toBe(2);
+
+    await act(() => result.current.flush());
+
+    expect(result.current.pending).toBe(0);
+    expect(bodies()).toEqual(["a", "a", "b"]);
+  });
+
+  it("should refuse bodies that cannot be persisted", async () => {
+    const { result } = renderHook(() => useOfflineQueue());
+
+    await expect(
+      result.current.send("/api/files", { body: new Blob(["x"]) })
+    ).rejects.toBeInstanceOf(TypeError);
+  });
+});
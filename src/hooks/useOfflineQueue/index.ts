@@ -0,0 +1,309 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useLocalStorage } from "../useLocalStorage";
+import { dispatchStorageChange } from "../useStorage";
+import { useNetworkStatus } from "../useNetworkStatus";
+import { useFetchConfig } from "../useFetch/config";
+import { HttpError, NetworkError } from "../useFetch/errors";
+import { sendRequest } from "../useFetch/fetcher";
+import { defaultShouldRetry } from "../useFetch/retry";
+
+/**
+ * A request waiting for connectivity. Only serializable parts are kept so the
+ * queue survives reloads.
+ */
+export interface QueuedRequest {
+  id: string;
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: string | null;
+  /** When the request was queued (ms since epoch) */
+  queuedAt: number;
+}
+
+/** Changes to apply to a conflicting request before sending it again */
+export type ConflictResolution = Partial<
+  Pick<QueuedRequest, "url" | "method" | "headers" | "body">
+>;
+
+export interface UseOfflineQueueOptions {
+  /**
+   * localStorage key of the queue. Hooks using the same key share one queue.
+   * @default "iso-hooks:offline-queue"
+   */
+  storageKey?: string;
+  /**
+   * Called for each queued request the server accepted. Errors it throws are
+   * logged; the request stays sent.
+   */
+  onSuccess?: (request: QueuedRequest, response: Response) => unknown;
+  /**
+   * Called when the server rejects a replayed request as conflicting (409 or
+   * 412 by default). Return changes to send it again (e.g. rebased on the
+   * server's version), or nothing to drop it. If it throws, the error is
+   * logged and the request dropped.
+   */
+  onConflict?: (
+    request: QueuedRequest,
+    error: HttpError
+  ) =>
+    | ConflictResolution
+    | void
+    | undefined
+    | Promise<ConflictResolution | void | undefined>;
+  /**
+   * Called when a replayed request fails for good; it is dropped. Errors it
+   * throws are logged.
+   */
+  onError?: (request: QueuedRequest, error: Error) => unknown;
+  /** Tells conflicts apart from other errors */
+  isConflict?: (error: HttpError) => boolean;
+  /**
+   * How many times one request is resent with a resolution during a replay.
+   * When it still conflicts, it is dropped and reported to `onError`.
+   * @default 3
+   */
+  maxConflictRetries?: number;
+}
+
+const DEFAULT_STORAGE_KEY = "iso-hooks:offline-queue";
+
+const noop = () => {};
+
+// Replays in progress, so components sharing a queue never send twice
+const flushing = new Set<string>();
+
+const defaultIsConflict = (error: HttpError) =>
+  error.status === 409 || error.status === 412;
+
+function readQueue(key: string): QueuedRequest[] {
+  try {
+    const item = window.localStorage.getItem(key);
+    return item ? JSON.parse(item) : [];
+  } catch (error) {
+    console.warn(`Error reading offline queue "${key}":`, error);
+    return [];
+  }
+}
+
+function writeQueue(key: string, queue: QueuedRequest[]) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(queue));
+    dispatchStorageChange(key, window.localStorage);
+  } catch (error) {
+    console.warn(`Error writing offline queue "${key}":`, error);
+  }
+}
+
+function updateQueue(
+  key: string,
+  update: (queue: QueuedRequest[]) => QueuedRequest[]
+) {
+  writeQueue(key, update(readQueue(key)));
+}
+
+/** Runs `fn` while holding a lock shared by all tabs, when supported */
+function withLock(name: string, fn: () => Promise<void>) {
+  const locks = typeof navigator !== "undefined" && navigator.locks;
+  return locks ? locks.request(name, fn) : fn();
+}
+
+function toQueuedRequest(url: string, init: RequestInit): QueuedRequest {
+  if (init.body != null && typeof init.body !== "string") {
+    throw new TypeError(
+      "useOfflineQueue: only string bodies can be queued, e.g. JSON.stringify(data)"
+    );
+  }
+
+  const headers: Record<string, string> = {};
+  new Headers(init.headers).forEach((value, name) => {
+    headers[name] = value;
+  });
+
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    url,
+    method: init.method ?? "POST",
+    headers,
+    body: init.body ?? null,
+    queuedAt: Date.now(),
+  };
+}
+
+/**
+ * useOfflineQueue
+ *
+ * Sends mutations right away when online, and queues them in localStorage
+ * while offline. Queued requests are replayed in order as soon as the
+ * browser is back online, even after a reload. A network error or a
+ * transient server error (5xx, 408, 429) stops the replay and keeps the
+ * remaining requests for next time.
+ *
+ * @example
+ * ```tsx
+ * const { send, pending } = useOfflineQueue({
+ *   onConflict: (request, error) => askUserToMerge(request, error),
+ * });
+ *
+ * send(`/api/notes/${id}`, { method: "PUT", body: JSON.stringify(note) });
+ * // {pending > 0 && `${pending} changes pending`}
+ * ```
+ *
+ * @param options - Storage key and replay callbacks
+ */
+export function useOfflineQueue(options: UseOfflineQueueOptions = {}) {
+  const { storageKey = DEFAULT_STORAGE_KEY } = options;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const config = useFetchConfig();
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  const [queue] = useLocalStorage<QueuedRequest[]>(storageKey, []);
+  const { online } = useNetworkStatus();
+  const onlineRef = useRef(online);
+  onlineRef.current = online;
+  const [isFlushing, setIsFlushing] = useState(false);
+
+  const sendQueued = (request: QueuedRequest) =>
+    sendRequest(
+      request.url,
+      { method: request.method, headers: request.headers, body: request.body },
+      configRef.current
+    );
+
+  // A throwing callback must not stop the replay or reject flush()
+  const warnCallbackError = (callback: string, error: unknown) =>
+    console.warn(
+      `Error in ${callback} of offline queue "${storageKey}":`,
+      error
+    );
+
+  const flush = useCallback(async () => {
+    if (flushing.has(storageKey)) return;
+    flushing.add(storageKey);
+    setIsFlushing(true);
+
+    try {
+      await withLock(storageKey, async () => {
+        let request: QueuedRequest | undefined;
+        // Resolutions sent per request, so a lasting conflict can't loop
+        const conflicts = new Map<string, number>();
+
+        // Re-read every time: requests may be queued while replaying
+        while (onlineRef.current && (request = readQueue(storageKey)[0])) {
+          const {
+            onSuccess,
+            onConflict,
+            onError,
+            isConflict,
+            maxConflictRetries = 3,
+          } = optionsRef.current;
+          const current: QueuedRequest = request;
+          const remove = () =>
+            updateQueue(storageKey, (queue) =>
+              queue.filter(({ id }) => id !== current.id)
+            );
+          let response: Response;
+
+          try {
+            response = await sendQueued(current);
+          } catch (err: any) {
+            // Offline again or a transient failure: keep it for next time
+            if (defaultShouldRetry(err)) break;
+
+            const conflict =
+              err instanceof HttpError &&
+              (isConflict ?? defaultIsConflict)(err) &&
+              !!onConflict;
+            const retries = conflicts.get(current.id) ?? 0;
+            const exhausted = conflict && retries >= maxConflictRetries;
+            let resolution: ConflictResolution | void | undefined;
+            if (conflict && !exhausted) {
+              try {
+                resolution = await onConflict!(current, err);
+              } catch (error) {
+                // Failed to resolve: dropped like an unresolved conflict
+                warnCallbackError("onConflict", error);
+              }
+            }
+
+            if (resolution) {
+              conflicts.set(current.id, retries + 1);
+              updateQueue(storageKey, (queue) =>
+                queue.map((queued) =>
+                  queued.id === current.id
+                    ? { ...queued, ...resolution }
+                    : queued
+                )
+              );
+            } else {
+              remove();
+              if (!conflict || exhausted) {
+                try {
+                  await onError?.(current, err);
+                } catch (error) {
+                  warnCallbackError("onError", error);
+                }
+              }
+            }
+            continue;
+          }
+
+          remove();
+          try {
+            await onSuccess?.(current, response);
+          } catch (error) {
+            warnCallbackError("onSuccess", error);
+          }
+        }
+      });
+    } finally {
+      flushing.delete(storageKey);
+      setIsFlushing(false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [storageKey]);
+
+  /**
+   * Sends the request now when possible, otherwise queues it. Resolves with
+   * the response, or null when the request was queued. Requests are queued
+   * behind pending ones so the server sees them in order.
+   */
+  const enqueue = useCallback(
+    async (url: string, init: RequestInit = {}): Promise<Response | null> => {
+      const request = toQueuedRequest(url, init);
+
+      if (onlineRef.current && readQueue(storageKey).length === 0) {
+        try {
+          return await sendQueued(request);
+        } catch (err) {
+          if (!(err instanceof NetworkError)) throw err;
+        }
+      }
+
+      updateQueue(storageKey, (queue) => [...queue, request]);
+      if (onlineRef.current) flush().catch(noop);
+      return null;
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [storageKey, flush]
+  );
+
+  const clear = useCallback(() => writeQueue(storageKey, []), [storageKey]);
+
+  // Replay when connectivity returns, and on mount for a queue left over
+  // from a previous session
+  useEffect(() => {
+    if (online && readQueue(storageKey).length > 0) flush().catch(noop);
+  }, [online, storageKey, flush]);
+
+  return {
+    send: enqueue,
+    queue,
+    pending: queue.length,
+    isFlushing,
+    flush,
+    clear,
+  };
+}
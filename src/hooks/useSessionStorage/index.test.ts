@@ -0,0 +1,32 @@
+import { act, renderHook } from "@testing-library/react";
+import { beforeEach, describe, expect, it } from "vitest";
+import { useSessionStorage } from ".";
+import { useLocalStorage } from "../useLocalStorage";
+
+beforeEach(() => {
+  window.sessionStorage.clear();
+  window.localStorage.clear();
+});
+
+describe("useSessionStorage", () => {
+  it("should keep the value in sessionStorage", () => {
+    const { result } = renderHook(() => useSessionStorage("step", 1));
+
+    act(() => result.current[1](2));
+
+    expect(result.current[0]).toBe(2);
+    expect(window.sessionStorage.getItem("step")).toBe("2");
+    expect(window.localStorage.getItem("step")).toBeNull();
+  });
+
+  it("should sync hooks with the same key", () => {
+    const a = renderHook(() => useSessionStorage("step", 1));
+    const b = renderHook(() => useSessionStorage("step", 1));
+    const local = renderHook(() => useLocalStorage("step", 1));
+
+    act(() => a.result.current[1](3));
+
+    expect(b.result.current[0]).toBe(3);
+    expect(local.result.current[0]).toBe(1);
+  });
+});
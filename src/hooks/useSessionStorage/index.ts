@@ -0,0 +1,27 @@
+import { useStorage } from "../useStorage";
+import type { UseLocalStorageOptions } from "../useLocalStorage";
+
+const getSessionStorage = () => window.sessionStorage;
+
+/**
+ * useSessionStorage
+ *
+ * Like `useLocalStorage`, but the value lives in sessionStorage: it survives
+ * reloads and is dropped when the tab is closed. Components using the same
+ * key stay in sync.
+ *
+ * @example
+ * ```tsx
+ * const [step, setStep] = useSessionStorage("checkout-step", 1);
+ * ```
+ */
+export function useSessionStorage<T>(
+  key: string,
+  initialValue: T,
+  options: UseLocalStorageOptions<T> = {}
+) {
+  return useStorage(key, initialValue, {
+    ...options,
+    storage: getSessionStorage,
+  });
+}
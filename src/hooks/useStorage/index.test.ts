@@ -0,0 +1,125 @@
+import { act, renderHook } from "@testing-library/react";
+import { renderToString } from "react-dom/server";
+import { createElement } from "react";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  createMemoryStorage,
+  dispatchStorageChange,
+  sweepExpiredStorage,
+  useStorage,
+} from ".";
+
+beforeEach(() => {
+  window.localStorage.clear();
+});
+
+describe("useStorage", () => {
+  it("should read and write a custom backend", () => {
+    const storage = createMemoryStorage({ count: "1" });
+    const { result } = renderHook(() => useStorage("count", 0, { storage }));
+
+    expect(result.current[0]).toBe(1);
+
+    act(() => result.current[1]((prev) => prev + 1));
+
+    expect(result.current[0]).toBe(2);
+    expect(storage.getItem("count")).toBe("2");
+    expect(window.localStorage.getItem("count")).toBeNull();
+  });
+
+  it("should sync hooks sharing a backend, not other backends", () => {
+    const storage = createMemoryStorage();
+    const other = createMemoryStorage();
+    const a = renderHook(() => useStorage("key", "initial", { storage }));
+    const b = renderHook(() => useStorage("key", "initial", { storage }));
+    const c = renderHook(() =>
+      useStorage("key", "initial", { storage: other })
+    );
+    const local = renderHook(() => useStorage("key", "initial"));
+
+    act(() => a.result.current[1]("updated"));
+
+    expect(b.result.current[0]).toBe("updated");
+    expect(c.result.current[0]).toBe("initial");
+    expect(local.result.current[0]).toBe("initial");
+  });
+
+  it("should follow changes from other tabs", () => {
+    const { result } = renderHook(() => useStorage("key", "initial"));
+
+    act(() => {
+      window.localStorage.setItem("key", JSON.stringify("from another tab"));
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: "key",
+          storageArea: window.localStorage,
+        })
+      );
+    });
+
+    expect(result.current[0]).toBe("from another tab");
+  });
+
+  it("should treat change events without a backend as localStorage", () => {
+    const { result } = renderHook(() => useStorage("key", "initial"));
+
+    act(() => {
+      window.localStorage.setItem("key", JSON.stringify("written elsewhere"));
+      dispatchStorageChange("key");
+    });
+
+    expect(result.current[0]).toBe("written elsewhere");
+  });
+
+  it("should render the initial value on the server", () => {
+    const storage = createMemoryStorage({ key: JSON.stringify("stored") });
+    const Component = () => {
+      const [value] = useStorage("key", "initial", { storage });
+      return createElement("span", null, value);
+    };
+
+    expect(renderToString(createElement(Component))).toBe(
+      "<span>initial</span>"
+    );
+  });
+});
+
+describe("createMemoryStorage", () => {
+  it("should implement the Storage interface", () => {
+    const storage = createMemoryStorage({ a: "1" });
+
+    storage.setItem("b", "2");
+    expect(storage.length).toBe(2);
+    expect(storage.key(1)).toBe("b");
+
+    storage.removeItem("a");
+    expect(storage.getItem("a")).toBeNull();
+
+    storage.clear();
+    expect(storage.length).toBe(0);
+  });
+});
+
+describe("sweepExpiredStorage", () => {
+  it("should remove expired values under a prefix", () => {
+    const expired = JSON.stringify({
+      __iso: 1,
+      expiresAt: Date.now() - 1,
+      value: "1",
+    });
+    const storage = createMemoryStorage({
+      "app:old": expired,
+      "app:fresh": JSON.stringify({
+        __iso: 1,
+        expiresAt: Date.now() + 1000,
+        value: "1",
+      }),
+      "app:plain": "1",
+      "other:old": expired,
+    });
+
+    expect(sweepExpiredStorage("app:", storage)).toEqual(["app:old"]);
+    expect(storage.getItem("app:old")).toBeNull();
+    expect(storage.length).toBe(3);
+  });
+});
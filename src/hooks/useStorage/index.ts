@@ -0,0 +1,411 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import type { Validator } from "../useFetch/validate";
+
+/** The parts of the Web Storage API the storage hooks use */
+export type StorageLike = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+export interface UseStorageOptions<T> {
+  serializer?: (value: T) => string;
+  deserializer?: (value: string) => T;
+  initializeWithValue?: boolean;
+  /**
+   * Where values are kept: any Storage-like object, or a function returning
+   * one (called on the client only).
+   * @default window.localStorage
+   */
+  storage?: StorageLike | (() => StorageLike);
+  /**
+   * Version of the value's shape. Values are then stored in an envelope
+   * recording their version, and older ones go through `migrate` when read.
+   * Values stored before versioning count as version 0.
+   */
+  version?: number;
+  /**
+   * Upgrades a value stored with another version. The result is written
+   * back. Without it, such values are ignored in favor of `initialValue`.
+   */
+  migrate?: (oldValue: unknown, oldVersion: number) => T;
+  /**
+   * Checks the stored value (after migrating it), e.g. a Zod schema or a
+   * function that throws.
+   */
+  validate?: Validator<T>;
+  /**
+   * What to do with a stored value failing `validate`: use `initialValue`
+   * instead, or throw the validator's error while rendering.
+   * @default "fallback"
+   */
+  onInvalid?: "fallback" | "throw";
+  /**
+   * Lifetime (ms) of a value, counted from when it is set. Expired values
+   * read as missing and are removed. Takes precedence over `expiresAt`.
+   */
+  ttl?: number;
+  /** When the value expires (a Date or ms since epoch) */
+  expiresAt?: Date | number;
+  /**
+   * With `ttl`, reading the value (mounting a component using it) restarts
+   * its lifetime.
+   * @default false
+   */
+  sliding?: boolean;
+}
+
+/** How versioned or expiring values are stored */
+interface StorageEnvelope {
+  /** Tells envelopes apart from stored values of the same shape */
+  __iso: 1;
+  version?: number;
+  /** ms since epoch */
+  expiresAt?: number;
+  /** The serialized value */
+  value: string;
+}
+
+interface DecodedItem<T> {
+  value: T;
+  /** Migrated from another version, to be written back */
+  stale: boolean;
+  /** Past its expiration, to be removed */
+  expired: boolean;
+  expiresAt?: number;
+}
+
+const getLocalStorage = () => window.localStorage;
+
+// Longer delays overflow setTimeout
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+/**
+ * Resolves the storage backend, or null where there is none (server,
+ * storage disabled by the browser).
+ */
+function resolveStorage(storage: UseStorageOptions<unknown>["storage"]) {
+  if (typeof window === "undefined" && typeof storage !== "object") {
+    return null;
+  }
+  try {
+    return typeof storage === "function" ? storage() : storage;
+  } catch {
+    return null;
+  }
+}
+
+function parseEnvelope(item: string): StorageEnvelope | null {
+  try {
+    const envelope = JSON.parse(item);
+    return envelope?.__iso === 1 && typeof envelope.value === "string"
+      ? envelope
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads a stored item: unwraps, expires, migrates and validates it.
+ */
+function decodeItem<T>(
+  key: string,
+  item: string | null,
+  initialValue: T,
+  {
+    deserializer = JSON.parse,
+    version,
+    migrate,
+    validate,
+    onInvalid = "fallback",
+  }: UseStorageOptions<T>
+): DecodedItem<T> {
+  const fallback = { value: initialValue, stale: false, expired: false };
+  if (!item) return fallback;
+
+  const envelope = parseEnvelope(item);
+  const expiresAt = envelope?.expiresAt;
+  if (expiresAt !== undefined && expiresAt <= Date.now()) {
+    return { ...fallback, expired: true };
+  }
+
+  let value: unknown;
+  const storedVersion =
+    version === undefined ? undefined : envelope?.version ?? 0;
+
+  try {
+    value = deserializer(envelope?.value ?? item);
+  } catch {
+    return fallback;
+  }
+
+  const stale = storedVersion !== version;
+
+  if (stale) {
+    if (!migrate) return fallback;
+    try {
+      value = migrate(value, storedVersion!);
+    } catch (error) {
+      console.warn(`Error migrating storage key "${key}":`, error);
+      return fallback;
+    }
+  }
+
+  if (validate) {
+    try {
+      value =
+        typeof validate === "function"
+          ? validate(value)
+          : validate.parse(value);
+    } catch (error) {
+      if (onInvalid === "throw") throw error;
+      console.warn(`Invalid value for storage key "${key}":`, error);
+      return fallback;
+    }
+  }
+
+  return { value: value as T, stale, expired: false, expiresAt };
+}
+
+function getExpiresAt({
+  ttl,
+  expiresAt,
+}: Pick<UseStorageOptions<unknown>, "ttl" | "expiresAt">) {
+  if (ttl !== undefined) return Date.now() + ttl;
+  return expiresAt instanceof Date ? expiresAt.getTime() : expiresAt;
+}
+
+/**
+ * Tells every hook using `key` in `storage` that its value changed. Hooks in
+ * other tabs are notified by the browser's own storage event.
+ */
+export function dispatchStorageChange(key: string, storage?: StorageLike) {
+  window.dispatchEvent(
+    new CustomEvent("local-storage-change", {
+      detail: { key, storageArea: storage },
+    })
+  );
+}
+
+/**
+ * Removes the expired values stored by the storage hooks under a key prefix,
+ * e.g. at startup, since values are otherwise only removed when read.
+ *
+ * @returns The removed keys
+ */
+export function sweepExpiredStorage(
+  prefix = "",
+  storage: Storage = window.localStorage
+): string[] {
+  const now = Date.now();
+  const keys: string[] = [];
+
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (key === null || !key.startsWith(prefix)) continue;
+
+    const expiresAt = parseEnvelope(storage.getItem(key) ?? "")?.expiresAt;
+    if (expiresAt !== undefined && expiresAt <= now) keys.push(key);
+  }
+
+  keys.forEach((key) => storage.removeItem(key));
+  return keys;
+}
+
+/**
+ * Creates a Storage kept in memory, e.g. for tests, or for the server where
+ * there is no localStorage.
+ */
+export function createMemoryStorage(
+  initialItems: Record<string, string> = {}
+): Storage {
+  const items = new Map(Object.entries(initialItems));
+
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, String(value));
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    clear: () => items.clear(),
+  };
+}
+
+/**
+ * useStorage
+ *
+ * Keeps a value in a Storage-like backend and re-renders when it changes,
+ * whether it was set by another component or, for localStorage, another
+ * tab. Values are serialized as JSON by default. With a `version`, values
+ * stored in an older shape are migrated and written back; with a `ttl` or
+ * `expiresAt`, expired values read as missing and are removed.
+ * `useLocalStorage` and `useSessionStorage` are this hook with their storage.
+ *
+ * @example
+ * ```tsx
+ * const storage = createMemoryStorage();
+ * const [draft, setDraft, removeDraft] = useStorage("draft", "", {
+ *   storage,
+ *   ttl: 24 * 60 * 60 * 1000,
+ * });
+ * ```
+ *
+ * @param key - The storage key
+ * @param initialValue - Used while nothing is stored
+ * @param options - Storage backend and serialization
+ */
+export function useStorage<T>(
+  key: string,
+  initialValue: T,
+  options: UseStorageOptions<T> = {}
+) {
+  const {
+    serializer = JSON.stringify,
+    storage = getLocalStorage,
+    version,
+    ttl,
+    sliding = false,
+  } = options;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const area = resolveStorage(storage);
+
+  const subscribe = useCallback(
+    (callback: () => void) => {
+      const handleStorageChange = (event: StorageEvent) => {
+        if (event.key === key && event.storageArea === area) {
+          callback();
+        }
+      };
+
+      // Events without a storage come from code written for localStorage
+      const handleCustomChange = (event: Event) => {
+        const detail = (event as CustomEvent).detail;
+        if (
+          detail?.key === key &&
+          (detail.storageArea ?? resolveStorage(getLocalStorage)) === area
+        ) {
+          callback();
+        }
+      };
+
+      window.addEventListener("storage", handleStorageChange);
+      window.addEventListener("local-storage-change", handleCustomChange);
+
+      return () => {
+        window.removeEventListener("storage", handleStorageChange);
+        window.removeEventListener("local-storage-change", handleCustomChange);
+      };
+    },
+    [key, area]
+  );
+
+  const getSnapshot = () => {
+    try {
+      return area?.getItem(key) || null;
+    } catch (error) {
+      console.warn(`Error reading storage key "${key}":`, error);
+      return null;
+    }
+  };
+
+  const getServerSnapshot = () => null;
+
+  const storeValue = useSyncExternalStore(
+    subscribe,
+    getSnapshot,
+    getServerSnapshot
+  );
+
+  const { value, stale, expired, expiresAt } = decodeItem(
+    key,
+    storeValue,
+    initialValue,
+    options
+  );
+
+  const write = useCallback(
+    (valueToStore: T) => {
+      if (!area) throw new Error("Storage is not available");
+
+      const serialized = serializer(valueToStore);
+      const expiresAt = getExpiresAt(optionsRef.current);
+      area.setItem(
+        key,
+        version === undefined && expiresAt === undefined
+          ? serialized
+          : JSON.stringify({ __iso: 1, version, expiresAt, value: serialized })
+      );
+
+      dispatchStorageChange(key, area);
+    },
+    [key, area, serializer, version]
+  );
+
+  const remove = useCallback(() => {
+    if (!area) return;
+    try {
+      area.removeItem(key);
+      dispatchStorageChange(key, area);
+    } catch (error) {
+      console.warn(`Error removing storage key "${key}":`, error);
+    }
+  }, [key, area]);
+
+  const setValue = useCallback(
+    (newValue: T | ((val: T) => T)) => {
+      try {
+        write(newValue instanceof Function ? newValue(value) : newValue);
+      } catch (error) {
+        console.warn(`Error setting storage key "${key}":`, error);
+      }
+    },
+    [key, write, value]
+  );
+
+  // Save migrated values so the upgrade runs once
+  useEffect(() => {
+    if (!stale) return;
+    try {
+      write(value);
+    } catch (error) {
+      console.warn(`Error setting storage key "${key}":`, error);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stale, storeValue, write]);
+
+  useEffect(() => {
+    if (expired) remove();
+  }, [expired, remove]);
+
+  // Remove the value once it expires, unless it was set again meanwhile
+  useEffect(() => {
+    if (expiresAt === undefined || !area) return;
+
+    const delay = expiresAt - Date.now();
+    if (delay > MAX_TIMEOUT) return;
+
+    const timer = setTimeout(() => {
+      if (area.getItem(key) === storeValue) remove();
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [key, area, expiresAt, storeValue, remove]);
+
+  // Sliding expiration: reading the value restarts its lifetime
+  useEffect(() => {
+    if (!sliding || ttl === undefined || !storeValue || expired || stale) {
+      return;
+    }
+    try {
+      write(value);
+    } catch (error) {
+      console.warn(`Error setting storage key "${key}":`, error);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, area, sliding]);
+
+  return [value, setValue, remove] as const;
+}
@@ -0,0 +1,177 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { useStreamingFetch } from ".";
+import { HttpError, ParseError } from "../useFetch";
+
+let mockFetch: ReturnType<typeof vi.fn>;
+
+// Response whose body chunks are pushed by the test
+function createStreamResponse() {
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const body = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+  });
+
+  return {
+    response: new Response(body),
+    push: (text: string | Uint8Array) =>
+      act(async () => {
+        controller.enqueue(
+          typeof text === "string" ? new TextEncoder().encode(text) : text
+        );
+      }),
+    // Enqueues each part as a separate chunk, all at once
+    pushAll: (parts: string[]) =>
+      act(async () => {
+        parts.forEach((part) =>
+          controller.enqueue(new TextEncoder().encode(part))
+        );
+      }),
+    close: () => act(async () => controller.close()),
+  };
+}
+
+beforeEach(() => {
+  mockFetch = vi.fn();
+  global.fetch = mockFetch as any;
+});
+
+describe("useStreamingFetch", () => {
+  it("should accumulate text as it arrives", async () => {
+    const stream = createStreamResponse();
+    mockFetch.mockResolvedValueOnce(stream.response);
+    const onChunk = vi.fn();
+
+    const { result } = renderHook(() =>
+      useStreamingFetch("/api/complete", { method: "POST", onChunk })
+    );
+
+    expect(result.current.isStreaming).toBe(true);
+    await waitFor(() => expect(mockFetch).toHaveBeenCalled());
+    expect(mockFetch.mock.calls[0][1].method).toBe("POST");
+
+    await stream.push("Hel");
+    await waitFor(() => expect(result.current.text).toBe("Hel"));
+
+    // A character split across chunks is decoded once complete
+    const bytes = new TextEncoder().encode("lo ☃");
+    await stream.push(bytes.slice(0, 4));
+    await stream.push(bytes.slice(4));
+    await stream.close();
+
+    await waitFor(() => expect(result.current.isDone).toBe(true));
+    expect(result.current.text).toBe("Hello ☃");
+    expect(onChunk.mock.calls.map(([chunk]) => chunk).join("")).toBe("Hello ☃");
+  });
+
+  it("should decode NDJSON lines split across chunks", async () => {
+    const stream = createStreamResponse();
+    mockFetch.mockResolvedValueOnce(stream.response);
+
+    const { result } = renderHook(() =>
+      useStreamingFetch<{ n: number }>("/api/logs", { format: "ndjson" })
+    );
+
+    await stream.push('{"n":1}\n{"n"');
+    await waitFor(() => expect(result.current.chunks).toEqual([{ n: 1 }]));
+
+    await stream.push(":2}\n\n");
+    await stream.push('{"n":3}');
+    await stream.close();
+
+    await waitFor(() => expect(result.current.isDone).toBe(true));
+    expect(result.current.chunks).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+  });
+
+  it("should keep every chunk of a fast stream", async () => {
+    const stream = createStreamResponse();
+    mockFetch.mockResolvedValueOnce(stream.response);
+
+    const { result } = renderHook(() =>
+      useStreamingFetch<number>("/api/logs", { format: "ndjson" })
+    );
+    await waitFor(() => expect(mockFetch).toHaveBeenCalled());
+
+    await stream.pushAll(Array.from({ length: 200 }, (_, n) => `${n}\n`));
+    await stream.close();
+
+    await waitFor(() => expect(result.current.isDone).toBe(true));
+    expect(result.current.chunks).toEqual(
+      Array.from({ length: 200 }, (_, n) => n)
+    );
+    expect(result.current.text).toHaveLength(690);
+  });
+
+  it("should split on a custom delimiter", async () => {
+    mockFetch.mockResolvedValueOnce(new Response("a|b||c|"));
+
+    const { result } = renderHook(() =>
+      useStreamingFetch("/api/parts", {
+        delimiter: "|",
+        parse: (part) => part.toUpperCase(),
+      })
+    );
+
+    await waitFor(() => expect(result.current.isDone).toBe(true));
+    expect(result.current.chunks).toEqual(["A", "B", "C"]);
+    expect(result.current.text).toBe("a|b||c|");
+  });
+
+  it("should keep what was received when aborted mid-stream", async () => {
+    const stream = createStreamResponse();
+    mockFetch.mockResolvedValueOnce(stream.response);
+
+    const { result } = renderHook(() => useStreamingFetch("/api/complete"));
+
+    await stream.push("partial");
+    await waitFor(() => expect(result.current.text).toBe("partial"));
+
+    act(() => result.current.abort());
+
+    await waitFor(() => expect(result.current.status).toBe("idle"));
+    expect(result.current.error).toBeNull();
+    expect(result.current.text).toBe("partial");
+    expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(true);
+  });
+
+  it("should report HTTP and parse errors", async () => {
+    mockFetch.mockResolvedValueOnce(new Response("Nope", { status: 500 }));
+
+    const { result, rerender } = renderHook(
+      ({ url }) => useStreamingFetch(url, { format: "ndjson" }),
+      { initialProps: { url: "/api/a" } }
+    );
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(result.current.error).toBeInstanceOf(HttpError);
+
+    mockFetch.mockResolvedValueOnce(new Response('{"ok":true}\nnot json\n'));
+    rerender({ url: "/api/b" });
+
+    await waitFor(() =>
+      expect(result.current.error).toBeInstanceOf(ParseError)
+    );
+    expect(result.current.chunks).toEqual([{ ok: true }]);
+  });
+
+  it("should wait for a URL and restart on refetch", async () => {
+    const { result, rerender } = renderHook(
+      ({ url }) => useStreamingFetch(url),
+      { initialProps: { url: null as string | null } }
+    );
+
+    expect(result.current.status).toBe("idle");
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    mockFetch.mockImplementation(async () => new Response("once"));
+    rerender({ url: "/api/text" });
+    await waitFor(() => expect(result.current.text).toBe("once"));
+
+    act(() => result.current.refetch());
+    await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+    await waitFor(() => expect(result.current.isDone).toBe(true));
+    expect(result.current.text).toBe("once");
+  });
+});
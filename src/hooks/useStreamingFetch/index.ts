@@ -0,0 +1,254 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useFetchConfig } from "../useFetch/config";
+import { ParseError } from "../useFetch/errors";
+import { readStream, runAbortable, sendRequest } from "../useFetch/fetcher";
+import { useTransfer } from "../useFetch/progress";
+
+export interface UseStreamingFetchOptions<T> extends RequestInit {
+  /**
+   * How to split the body into chunks:
+   * - "text": each piece of text as it arrives
+   * - "ndjson": one JSON value per line
+   * @default "text"
+   */
+  format?: "text" | "ndjson";
+  /**
+   * Splits the body on this string instead, e.g. "\n\n". Defaults to "\n"
+   * for NDJSON.
+   */
+  delimiter?: string;
+  /**
+   * Reads each delimited part. Defaults to JSON.parse for NDJSON and to the
+   * text itself otherwise.
+   */
+  parse?: (part: string) => T;
+  /** Called with every chunk as it arrives */
+  onChunk?: (chunk: T) => unknown;
+  /** Aborts the request if the whole stream takes longer than this (ms) */
+  timeout?: number;
+}
+
+interface StreamState<T> {
+  text: string;
+  chunks: T[];
+}
+
+const EMPTY_STREAM: StreamState<never> = { text: "", chunks: [] };
+
+const noop = () => {};
+
+const nextFrame = (callback: () => void) =>
+  typeof requestAnimationFrame === "function"
+    ? requestAnimationFrame(callback)
+    : setTimeout(callback, 16);
+
+/**
+ * Collects what a stream received and publishes it at most once per frame,
+ * so long streams don't copy everything received on every chunk.
+ * `publish` renders what is pending right away.
+ */
+function createStreamBuffer<T>(
+  setStream: (stream: StreamState<T>) => void,
+  isCurrent: () => boolean
+) {
+  const text: string[] = [];
+  const chunks: T[] = [];
+  let scheduled = false;
+
+  const publish = () => {
+    scheduled = false;
+    if (!isCurrent()) return;
+    // Joined once, so the next publish only appends the new pieces
+    text.splice(0, text.length, text.join(""));
+    setStream({ text: text[0], chunks: chunks.slice() });
+  };
+
+  const schedule = () => {
+    if (scheduled) return;
+    scheduled = true;
+    nextFrame(() => scheduled && publish());
+  };
+
+  return {
+    pushText(piece: string) {
+      text.push(piece);
+      schedule();
+    },
+    pushChunk(chunk: T) {
+      chunks.push(chunk);
+      schedule();
+    },
+    publish,
+  };
+}
+
+/**
+ * Decodes a body into chunks: raw text pieces, or delimited parts once each
+ * is complete. `flush` emits the last part when the body ends.
+ */
+function createDecoder<T>(
+  url: string,
+  { format = "text", delimiter, parse }: UseStreamingFetchOptions<T>,
+  onText: (text: string) => void,
+  onChunk: (chunk: T) => void
+) {
+  const decoder = new TextDecoder();
+  const separator = delimiter ?? (format === "ndjson" ? "\n" : null);
+  const read =
+    parse ??
+    ((part: string) => (format === "ndjson" ? JSON.parse(part) : part) as T);
+  let buffer = "";
+
+  const emit = (part: string) => {
+    // Blank parts, e.g. a trailing newline, carry no chunk
+    if (separator && !part.trim()) return;
+
+    let chunk: T;
+    try {
+      chunk = read(part);
+    } catch (err) {
+      throw new ParseError(url, err);
+    }
+    onChunk(chunk);
+  };
+
+  const push = (text: string) => {
+    if (!text) return;
+    onText(text);
+
+    if (!separator) return emit(text);
+
+    const parts = (buffer + text).split(separator);
+    buffer = parts.pop()!;
+    parts.forEach(emit);
+  };
+
+  return {
+    write: (bytes: Uint8Array) => push(decoder.decode(bytes, { stream: true })),
+    flush: () => {
+      push(decoder.decode());
+      if (buffer) emit(buffer);
+      buffer = "";
+    },
+  };
+}
+
+/**
+ * useStreamingFetch
+ *
+ * Fetches a URL and reads the response as it streams in, e.g. LLM output or
+ * a log tail. The body is decoded as plain text, NDJSON or parts split on a
+ * custom delimiter. Exposes the text received so far and the decoded chunks,
+ * updated at most once per frame, and calls `onChunk` for each one as it
+ * arrives. Like `useFetch`, the request starts when
+ * `url` or `deps` change and is aborted by `abort()`, `signal`, `timeout`,
+ * a new request or unmounting; what was received is kept.
+ *
+ * @example
+ * ```tsx
+ * const { chunks, isStreaming, abort } = useStreamingFetch<LogLine>(
+ *   `/api/jobs/${id}/logs`,
+ *   { format: "ndjson", onChunk: (line) => line.level === "error" && notify(line) },
+ *   [id]
+ * );
+ * ```
+ *
+ * @param url - The URL to stream (null to wait)
+ * @param options - Fetch options, decoding and the chunk callback
+ * @param deps - Restart the stream when these change
+ */
+export function useStreamingFetch<T = string>(
+  url: string | null,
+  options: UseStreamingFetchOptions<T> = {},
+  deps: any[] = []
+) {
+  const urlRef = useRef(url);
+  urlRef.current = url;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const config = useFetchConfig();
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  const [stream, setStream] = useState<StreamState<T>>(EMPTY_STREAM);
+  // Only the latest request may publish what it received
+  const runRef = useRef(0);
+
+  const { state, start, abort } = useTransfer((signal) => {
+    const url = urlRef.current!;
+    const {
+      format,
+      delimiter,
+      parse,
+      onChunk,
+      timeout,
+      signal: externalSignal,
+      ...init
+    } = optionsRef.current;
+
+    setStream(EMPTY_STREAM);
+    const run = ++runRef.current;
+    const buffer = createStreamBuffer<T>(
+      setStream,
+      () => run === runRef.current
+    );
+
+    return runAbortable(
+      url,
+      signal,
+      { timeout, signal: externalSignal },
+      async (signal) => {
+        const res = await sendRequest(
+          url,
+          { ...init, signal },
+          configRef.current
+        );
+        const decoder = createDecoder<T>(
+          url,
+          optionsRef.current,
+          buffer.pushText,
+          (chunk) => {
+            buffer.pushChunk(chunk);
+            optionsRef.current.onChunk?.(chunk);
+          }
+        );
+
+        try {
+          if (res.body) {
+            await readStream(res.body, url, signal, decoder.write);
+          } else {
+            decoder.write(new Uint8Array(await res.arrayBuffer()));
+          }
+          decoder.flush();
+        } finally {
+          // Show everything received before the status changes
+          buffer.publish();
+        }
+      }
+    );
+  });
+
+  /** Restarts the stream from the beginning */
+  const refetch = useCallback(() => {
+    if (urlRef.current) start().catch(noop);
+  }, [start]);
+
+  useEffect(() => {
+    if (!url) return;
+    start().catch(noop);
+    return abort;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [url, ...deps]);
+
+  return {
+    text: stream.text,
+    chunks: stream.chunks,
+    error: state.error,
+    status: state.status,
+    isStreaming: state.status === "pending",
+    isDone: state.status === "success",
+    isError: state.status === "error",
+    abort,
+    refetch,
+  };
+}
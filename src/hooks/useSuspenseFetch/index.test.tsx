@@ -0,0 +1,136 @@
+import { act, render, screen } from "@testing-library/react";
+import { Component, Suspense } from "react";
+import type { ReactNode } from "react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { useSuspenseFetch } from ".";
+import {
+  clearQueryCache,
+  HttpError,
+  invalidateQueries,
+  useFetch,
+} from "../useFetch";
+
+let mockFetch: ReturnType<typeof vi.fn>;
+
+const jsonResponse = (body: unknown) => new Response(JSON.stringify(body));
+
+beforeEach(() => {
+  mockFetch = vi.fn();
+  global.fetch = mockFetch as any;
+  clearQueryCache();
+});
+
+class ErrorBoundary extends Component<
+  { children: ReactNode; onReset?: () => void },
+  { error: Error | null }
+> {
+  state = { error: null as Error | null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  reset = () => {
+    this.props.onReset?.();
+    this.setState({ error: null });
+  };
+
+  render() {
+    return this.state.error ? (
+      <button onClick={this.reset}>{this.state.error.name}</button>
+    ) : (
+      this.props.children
+    );
+  }
+}
+
+function User() {
+  const { data } = useSuspenseFetch<{ name: string }>("/api/user");
+  return <p>{data.name}</p>;
+}
+
+const renderUser = () =>
+  render(
+    <ErrorBoundary onReset={() => invalidateQueries("/api/user")}>
+      <Suspense fallback={<p>loading</p>}>
+        <User />
+      </Suspense>
+    </ErrorBoundary>
+  );
+
+describe("useSuspenseFetch", () => {
+  it("should suspend until the data is loaded", async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ name: "Ada" }));
+
+    renderUser();
+
+    expect(screen.getByText("loading")).toBeTruthy();
+    expect(await screen.findByText("Ada")).toBeTruthy();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should share the request with useFetch", async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ name: "Ada" }));
+
+    function Plain() {
+      const { data } = useFetch<{ name: string }>("/api/user");
+      return <p>plain {data?.name}</p>;
+    }
+
+    render(
+      <>
+        <Plain />
+        <Suspense fallback={<p>loading</p>}>
+          <User />
+        </Suspense>
+      </>
+    );
+
+    expect(await screen.findByText("Ada")).toBeTruthy();
+    expect(screen.getByText("plain Ada")).toBeTruthy();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should throw errors to the error boundary and retry after a reset", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 404 })
+      .mockResolvedValueOnce(jsonResponse({ name: "Ada" }));
+
+    renderUser();
+
+    const button = await screen.findByText("HttpError");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    act(() => button.click());
+
+    expect(await screen.findByText("Ada")).toBeTruthy();
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    vi.mocked(console.error).mockRestore();
+  });
+
+  it("should expose the thrown error as an HttpError", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 500 });
+    let caught: unknown;
+
+    class Catch extends ErrorBoundary {
+      componentDidCatch(error: Error) {
+        caught = error;
+      }
+    }
+
+    render(
+      <Catch>
+        <Suspense fallback={null}>
+          <User />
+        </Suspense>
+      </Catch>
+    );
+
+    await screen.findByText("HttpError");
+    expect(caught).toBeInstanceOf(HttpError);
+    expect((caught as HttpError).status).toBe(500);
+    vi.mocked(console.error).mockRestore();
+  });
+});
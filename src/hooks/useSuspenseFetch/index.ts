@@ -0,0 +1,109 @@
+import { useCallback } from "react";
+import { useFetch } from "../useFetch";
+import {
+  createFetcher,
+  getFetchQueryKey,
+  getRetryOptions,
+  type UseFetchOptions,
+} from "../useFetch/fetcher";
+import { useFetchConfig } from "../useFetch/config";
+import { useRenderCache } from "../useFetch/hydration";
+import { fetchQuery, getQueryState } from "../useFetch/queryCache";
+
+export type UseSuspenseFetchOptions<T, S = T> = Omit<
+  UseFetchOptions<T, S>,
+  "initialData"
+>;
+
+// Data that just suspended a component is not refetched when it mounts
+const MIN_STALE_TIME = 1000;
+
+const noop = () => {};
+
+/**
+ * useSuspenseFetch
+ *
+ * `useFetch` for React Suspense: suspends the nearest `<Suspense>` boundary
+ * until the data is loaded and throws failures to the nearest error boundary,
+ * so `data` is never null. Requests are shared with `useFetch` through the
+ * same cache. To retry after an error, call `invalidateQueries(url)` from the
+ * error boundary's reset handler. On the server it must render inside a
+ * `FetchCacheProvider` holding a cache created for the request.
+ *
+ * @example
+ * ```tsx
+ * <ErrorBoundary fallback={<Oops />}>
+ *   <Suspense fallback={<Spinner />}>
+ *     <Profile />
+ *   </Suspense>
+ * </ErrorBoundary>
+ *
+ * function Profile() {
+ *   const { data: user } = useSuspenseFetch<User>("/api/user");
+ *   return <p>{user.name}</p>;
+ * }
+ * ```
+ *
+ * @param url - The URL to fetch
+ * @param options - The same options as useFetch, without initialData
+ * @param deps - Dependencies to trigger re-fetch
+ */
+export function useSuspenseFetch<T = unknown, S = T>(
+  url: string,
+  options: UseSuspenseFetchOptions<T, S> = {},
+  deps: any[] = []
+) {
+  const cache = useRenderCache();
+
+  // The shared cache lives as long as the server: users would see each
+  // other's data
+  if (!cache && typeof window === "undefined") {
+    throw new Error(
+      "useSuspenseFetch: on the server, render inside <FetchCacheProvider cache={createQueryCache()}> with a cache created per request"
+    );
+  }
+  const config = useFetchConfig();
+  const key = getFetchQueryKey(url, options, config);
+
+  const { data, error, loading, retryCount, isRetrying, refetch, controller } =
+    useFetch<T, S>(
+      url,
+      {
+        ...options,
+        staleTime: Math.max(options.staleTime ?? 0, MIN_STALE_TIME),
+      },
+      deps
+    );
+
+  // Background refetches keep showing the current data; no URL override
+  const refetchCurrent = useCallback(() => refetch(), [refetch]);
+
+  const state = getQueryState<T>(key, cache);
+
+  // Nothing loaded yet: throw the error, or suspend on the (shared) request.
+  // An invalidated error is retried, e.g. after an error boundary reset.
+  if (!state.updatedAt) {
+    if (state.error && !state.isInvalidated) throw state.error;
+
+    throw fetchQuery(
+      key,
+      createFetcher(
+        url,
+        () => options,
+        () => config
+      ),
+      { ...getRetryOptions(options), cache }
+    ).then(noop, noop);
+  }
+
+  return {
+    data: data as S,
+    /** Error of a failed background refetch (the data is kept) */
+    error,
+    isFetching: loading,
+    retryCount,
+    isRetrying,
+    refetch: refetchCurrent,
+    controller,
+  };
+}
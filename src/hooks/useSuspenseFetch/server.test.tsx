@@ -0,0 +1,77 @@
+// @vitest-environment node
+import { Suspense } from "react";
+import type { ReactNode } from "react";
+import { renderToPipeableStream } from "react-dom/server";
+import { Writable } from "stream";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useSuspenseFetch } from ".";
+import { createQueryCache, FetchCacheProvider } from "../useFetch";
+
+let mockFetch: ReturnType<typeof vi.fn>;
+const originalFetch = global.fetch;
+
+const jsonResponse = (body: unknown) => new Response(JSON.stringify(body));
+
+beforeEach(() => {
+  mockFetch = vi.fn();
+  global.fetch = mockFetch as any;
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+function User() {
+  const { data } = useSuspenseFetch<{ name: string }>("/api/me");
+  return <p>{data.name}</p>;
+}
+
+const renderOnServer = (children: ReactNode) =>
+  new Promise<{ html: string; errors: unknown[] }>((resolve, reject) => {
+    let html = "";
+    const errors: unknown[] = [];
+    const writable = new Writable({
+      write(chunk, _encoding, callback) {
+        html += chunk;
+        callback();
+      },
+    });
+    writable.on("finish", () => resolve({ html, errors }));
+
+    const { pipe } = renderToPipeableStream(
+      <Suspense fallback={<p>loading</p>}>{children}</Suspense>,
+      {
+        onAllReady: () => pipe(writable),
+        onShellError: reject,
+        onError: (error) => {
+          errors.push(error);
+        },
+      }
+    );
+  });
+
+describe("useSuspenseFetch on the server", () => {
+  it("should stream each request's own data", async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ name: "Alice" }))
+      .mockResolvedValueOnce(jsonResponse({ name: "Bob" }));
+
+    const render = () =>
+      renderOnServer(
+        <FetchCacheProvider cache={createQueryCache()}>
+          <User />
+        </FetchCacheProvider>
+      );
+
+    expect((await render()).html).toContain("Alice");
+    expect((await render()).html).toContain("Bob");
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should refuse to render without a request cache", async () => {
+    const { errors } = await renderOnServer(<User />);
+
+    expect(String(errors[0])).toMatch(/FetchCacheProvider/);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
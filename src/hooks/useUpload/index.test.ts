@@ -0,0 +1,193 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { createElement } from "react";
+import type { ReactNode } from "react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { useUpload, xhrTransport, type UploadTransport } from ".";
+import { FetchConfigProvider, HttpError } from "../useFetch";
+
+// Transport double: the test reports progress and settles the request
+function createTransport() {
+  let progress!: (loaded: number, total: number | null) => void;
+  let settle!: (response: Response) => void;
+
+  const transport = vi.fn<UploadTransport>(
+    (_url, init, onProgress) =>
+      new Promise((resolve, reject) => {
+        progress = onProgress;
+        settle = resolve;
+        init.signal?.addEventListener("abort", () =>
+          reject(new DOMException("The operation was aborted.", "AbortError"))
+        );
+      })
+  );
+
+  return {
+    transport,
+    progress: (loaded: number, total: number | null) =>
+      act(() => progress(loaded, total)),
+    respond: (response: Response) => settle(response),
+  };
+}
+
+const OriginalXMLHttpRequest = global.XMLHttpRequest;
+
+afterEach(() => {
+  global.XMLHttpRequest = OriginalXMLHttpRequest;
+});
+
+describe("useUpload", () => {
+  it("should report progress and parse the response", async () => {
+    const fake = createTransport();
+    const file = new Blob(["0123456789"]);
+
+    const { result } = renderHook(() =>
+      useUpload<{ id: string }>("/api/files", { transport: fake.transport })
+    );
+
+    act(() => result.current.upload(file));
+    await waitFor(() => expect(fake.transport).toHaveBeenCalled());
+
+    const [url, init] = fake.transport.mock.calls[0];
+    expect(url).toBe("/api/files");
+    expect(init).toMatchObject({ method: "POST", body: file });
+
+    fake.progress(4, 10);
+    expect(result.current.progress).toMatchObject({
+      loaded: 4,
+      total: 10,
+      percent: 40,
+    });
+
+    fake.respond(new Response(JSON.stringify({ id: "f1" })));
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.data).toEqual({ id: "f1" });
+  });
+
+  it("should fail with an HttpError", async () => {
+    const fake = createTransport();
+
+    const { result } = renderHook(() =>
+      useUpload("/api/files", { transport: fake.transport })
+    );
+
+    act(() => result.current.upload("data"));
+    await waitFor(() => expect(fake.transport).toHaveBeenCalled());
+    fake.respond(new Response("Too large", { status: 413 }));
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(result.current.error).toBeInstanceOf(HttpError);
+    expect(await (result.current.error as HttpError).parseBody()).toBe(
+      "Too large"
+    );
+  });
+
+  it("should abort without reporting an error", async () => {
+    const fake = createTransport();
+
+    const { result } = renderHook(() =>
+      useUpload("/api/files", { transport: fake.transport })
+    );
+
+    let upload!: Promise<unknown>;
+    act(() => {
+      upload = result.current.uploadAsync("data");
+    });
+    await waitFor(() => expect(fake.transport).toHaveBeenCalled());
+
+    act(() => result.current.abort());
+
+    await expect(upload).rejects.toMatchObject({ name: "AbortError" });
+    await waitFor(() => expect(result.current.isIdle).toBe(true));
+    expect(result.current.error).toBeNull();
+  });
+
+  it("should let the browser set the multipart Content-Type", async () => {
+    const fake = createTransport();
+    const wrapper = ({ children }: { children: ReactNode }) =>
+      createElement(
+        FetchConfigProvider,
+        {
+          baseUrl: "https://api.example.com",
+          headers: { "Content-Type": "application/json", "X-App": "1" },
+        },
+        children
+      );
+
+    const { result } = renderHook(
+      () => useUpload("/files", { transport: fake.transport }),
+      { wrapper }
+    );
+
+    act(() => result.current.upload(new FormData()));
+    await waitFor(() => expect(fake.transport).toHaveBeenCalled());
+
+    const [url, init] = fake.transport.mock.calls[0];
+    const headers = new Headers(init.headers);
+    expect(url).toBe("https://api.example.com/files");
+    expect(headers.get("content-type")).toBeNull();
+    expect(headers.get("x-app")).toBe("1");
+  });
+
+  it("should upload through XMLHttpRequest by default", async () => {
+    const requests: FakeXMLHttpRequest[] = [];
+
+    class FakeXMLHttpRequest {
+      upload: { onprogress?: (event: Partial<ProgressEvent>) => void } = {};
+      status = 0;
+      statusText = "";
+      response: unknown = null;
+      responseType = "";
+      withCredentials = false;
+      method = "";
+      url = "";
+      body: unknown;
+      headers: Record<string, string> = {};
+      onload?: () => void;
+      onerror?: () => void;
+      ontimeout?: () => void;
+      onabort?: () => void;
+      open = (method: string, url: string) => {
+        this.method = method;
+        this.url = url;
+      };
+      setRequestHeader = (name: string, value: string) => {
+        this.headers[name] = value;
+      };
+      getAllResponseHeaders = () => "content-type: application/json\r\n";
+      send = (body: unknown) => {
+        this.body = body;
+        requests.push(this);
+      };
+      abort = () => this.onabort?.();
+    }
+
+    global.XMLHttpRequest = FakeXMLHttpRequest as any;
+    const onProgress = vi.fn();
+
+    const response = xhrTransport(
+      "/api/files",
+      { method: "PUT", headers: { "x-id": "7" }, body: "data" },
+      onProgress
+    );
+
+    const [xhr] = requests;
+    expect(xhr).toMatchObject({
+      method: "PUT",
+      url: "/api/files",
+      body: "data",
+      headers: { "x-id": "7" },
+    });
+
+    xhr.upload.onprogress?.({ loaded: 2, total: 4, lengthComputable: true });
+    expect(onProgress).toHaveBeenCalledWith(2, 4);
+
+    xhr.status = 201;
+    xhr.response = new Blob(['{"ok":true}']);
+    xhr.onload?.();
+
+    const res = await response;
+    expect(res.status).toBe(201);
+    expect(await res.json()).toEqual({ ok: true });
+  });
+});
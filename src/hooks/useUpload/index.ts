@@ -0,0 +1,215 @@
+import { useCallback, useRef } from "react";
+import { useFetchConfig } from "../useFetch/config";
+import { ParseError } from "../useFetch/errors";
+import { runAbortable, sendRequest } from "../useFetch/fetcher";
+import {
+  parseResponse,
+  type FetchResponseType,
+  type ResponseParser,
+} from "../useFetch/parseResponse";
+import { useTransfer, type ProgressCallback } from "../useFetch/progress";
+
+/**
+ * Sends an upload and reports its progress. Must reject with an AbortError
+ * when `init.signal` aborts, and with any other error when no response
+ * arrives. Swap it for a test double to test without a network.
+ */
+export type UploadTransport = (
+  url: string,
+  init: RequestInit,
+  onProgress: ProgressCallback
+) => Promise<Response>;
+
+export interface UseUploadOptions<T> extends Omit<RequestInit, "body"> {
+  /** Aborts the upload if it takes longer than this (ms) */
+  timeout?: number;
+  /**
+   * How to read the response body. Ignored when `parse` is given.
+   * @default "json"
+   */
+  responseType?: FetchResponseType;
+  /** Custom body reader */
+  parse?: ResponseParser<T>;
+  /** Performs the request (XMLHttpRequest by default) */
+  transport?: UploadTransport;
+}
+
+const noop = () => {};
+
+// Statuses a Response cannot be built with a body for
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+function parseHeaders(raw: string) {
+  const headers = new Headers();
+
+  raw
+    .trim()
+    .split(/[\r\n]+/)
+    .forEach((line) => {
+      const index = line.indexOf(":");
+      if (index > 0) {
+        headers.append(
+          line.slice(0, index).trim(),
+          line.slice(index + 1).trim()
+        );
+      }
+    });
+
+  return headers;
+}
+
+/**
+ * Default upload transport: fetch cannot report upload progress, so the
+ * request goes through XMLHttpRequest and the answer is wrapped in a
+ * Response.
+ */
+export const xhrTransport: UploadTransport = (
+  url,
+  { method = "POST", headers, body, signal, credentials },
+  onProgress
+) =>
+  new Promise((resolve, reject) => {
+    const abortError = () =>
+      new DOMException("The operation was aborted.", "AbortError");
+
+    if (signal?.aborted) return reject(abortError());
+
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+
+    xhr.open(method, url);
+    xhr.responseType = "blob";
+    xhr.withCredentials = credentials === "include";
+    new Headers(headers).forEach((value, name) =>
+      xhr.setRequestHeader(name, value)
+    );
+
+    xhr.upload.onprogress = (event) => {
+      onProgress(event.loaded, event.lengthComputable ? event.total : null);
+    };
+    xhr.onload = () => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(
+        new Response(
+          NULL_BODY_STATUSES.includes(xhr.status) ? null : xhr.response,
+          {
+            status: xhr.status,
+            statusText: xhr.statusText,
+            headers: parseHeaders(xhr.getAllResponseHeaders()),
+          }
+        )
+      );
+    };
+    xhr.onerror = xhr.ontimeout = () => {
+      signal?.removeEventListener("abort", onAbort);
+      reject(new TypeError("Network request failed"));
+    };
+    xhr.onabort = () => reject(abortError());
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+    xhr.send(body as XMLHttpRequestBodyInit | null);
+  });
+
+/**
+ * useUpload
+ *
+ * Uploads a body (File, Blob, FormData, ...) on demand and tracks its
+ * progress. Goes through `FetchConfigProvider` like `useFetch`, fails with
+ * the same typed errors, and aborts the same way: `abort()`, `signal`,
+ * `timeout`, starting another upload or unmounting.
+ *
+ * @example
+ * ```tsx
+ * const { upload, progress, abort } = useUpload<{ id: string }>("/api/files");
+ *
+ * <input type="file" onChange={(e) => upload(e.target.files![0])} />
+ * <progress value={progress.percent ?? undefined} max={100} />
+ * ```
+ *
+ * @param url - The URL to upload to
+ * @param options - Request options (POST by default), timeout, response parsing
+ */
+export function useUpload<T = unknown>(
+  url: string,
+  options: UseUploadOptions<T> = {}
+) {
+  const urlRef = useRef(url);
+  urlRef.current = url;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const config = useFetchConfig();
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  const { state, start, abort, reset } = useTransfer(
+    (signal, onProgress, body: BodyInit) => {
+      const url = urlRef.current;
+      const {
+        timeout,
+        signal: externalSignal,
+        responseType,
+        parse,
+        transport = xhrTransport,
+        method = "POST",
+        ...init
+      } = optionsRef.current;
+
+      return runAbortable(
+        url,
+        signal,
+        { timeout, signal: externalSignal },
+        async (signal) => {
+          const res = await sendRequest(
+            url,
+            { ...init, method, body, signal },
+            configRef.current,
+            (url, init) => {
+              // The browser sets the multipart boundary itself
+              if (init.body instanceof FormData) {
+                const headers = new Headers(init.headers);
+                headers.delete("Content-Type");
+                init = { ...init, headers };
+              }
+              return transport(url, init, onProgress);
+            }
+          );
+
+          try {
+            return await parseResponse<T>(res, responseType, parse);
+          } catch (err: any) {
+            if (err?.name === "AbortError") throw err;
+            throw new ParseError(url, err);
+          }
+        }
+      );
+    }
+  );
+
+  const uploadAsync = useCallback(
+    (body: BodyInit): Promise<T> => start(body),
+    [start]
+  );
+
+  // Fire-and-forget variant: errors are reported through state
+  const upload = useCallback(
+    (body: BodyInit) => {
+      start(body).catch(noop);
+    },
+    [start]
+  );
+
+  return {
+    upload,
+    uploadAsync,
+    abort,
+    reset,
+    data: state.data,
+    error: state.error,
+    progress: state.progress,
+    status: state.status,
+    isIdle: state.status === "idle",
+    isPending: state.status === "pending",
+    isSuccess: state.status === "success",
+    isError: state.status === "error",
+  };
+}
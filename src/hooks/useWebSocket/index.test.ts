@@ -0,0 +1,214 @@
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useWebSocket } from ".";
+
+// In-memory socket: the test opens it, feeds messages and closes it
+class MockWebSocket {
+  static instances: MockWebSocket[] = [];
+
+  readyState = 0;
+  sent: unknown[] = [];
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+
+  constructor(public url: string, public protocols?: string | string[]) {
+    MockWebSocket.instances.push(this);
+  }
+
+  send = vi.fn((data: unknown) => {
+    this.sent.push(data);
+  });
+
+  close = vi.fn(() => {
+    this.readyState = 3;
+  });
+
+  open() {
+    act(() => {
+      this.readyState = 1;
+      this.onopen?.(new Event("open"));
+    });
+  }
+
+  receive(data: unknown) {
+    act(() => {
+      this.onmessage?.(new MessageEvent("message", { data }));
+    });
+  }
+
+  drop() {
+    act(() => {
+      this.readyState = 3;
+      this.onclose?.(new CloseEvent("close", { code: 1006 }));
+    });
+  }
+}
+
+const OriginalWebSocket = global.WebSocket;
+const URL = "wss://example.com/socket";
+
+beforeEach(() => {
+  MockWebSocket.instances = [];
+  global.WebSocket = MockWebSocket as any;
+});
+
+afterEach(() => {
+  global.WebSocket = OriginalWebSocket;
+  vi.useRealTimers();
+});
+
+describe("useWebSocket", () => {
+  it("should expose the connection state and the last message", () => {
+    const onMessage = vi.fn();
+    const { result, unmount } = renderHook(() =>
+      useWebSocket(URL, { protocols: "chat", onMessage })
+    );
+
+    const [socket] = MockWebSocket.instances;
+    expect(socket.protocols).toBe("chat");
+    expect(result.current.readyState).toBe(0);
+
+    socket.open();
+    expect(result.current.readyState).toBe(1);
+
+    socket.receive("hello");
+    expect(result.current.lastMessage?.data).toBe("hello");
+    expect(onMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ data: "hello" })
+    );
+
+    unmount();
+    expect(socket.close).toHaveBeenCalled();
+  });
+
+  it("should queue messages sent while disconnected", () => {
+    const { result } = renderHook(() => useWebSocket(URL));
+    const [socket] = MockWebSocket.instances;
+
+    act(() => {
+      result.current.sendJson({ type: "join" });
+      result.current.send("raw");
+    });
+    expect(socket.send).not.toHaveBeenCalled();
+
+    socket.open();
+    expect(socket.sent).toEqual(['{"type":"join"}', "raw"]);
+
+    act(() => result.current.sendJson({ type: "message" }));
+    expect(socket.sent).toHaveLength(3);
+  });
+
+  it("should share one socket per URL", () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const a = renderHook(() => useWebSocket(URL, { onMessage: first }));
+    const b = renderHook(() => useWebSocket(URL, { onMessage: second }));
+
+    expect(MockWebSocket.instances).toHaveLength(1);
+    const [socket] = MockWebSocket.instances;
+
+    socket.open();
+    socket.receive("update");
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(b.result.current.readyState).toBe(1);
+
+    a.unmount();
+    expect(socket.close).not.toHaveBeenCalled();
+    b.unmount();
+    expect(socket.close).toHaveBeenCalled();
+  });
+
+  it("should call the latest handlers", () => {
+    const { rerender } = renderHook(
+      ({ onMessage }) => useWebSocket(URL, { onMessage }),
+      { initialProps: { onMessage: vi.fn() } }
+    );
+    const latest = vi.fn();
+    rerender({ onMessage: latest });
+
+    const [socket] = MockWebSocket.instances;
+    socket.open();
+    socket.receive("hi");
+
+    expect(latest).toHaveBeenCalledTimes(1);
+    expect(MockWebSocket.instances).toHaveLength(1);
+  });
+
+  it("should reconnect with backoff", () => {
+    vi.useFakeTimers();
+    const onClose = vi.fn();
+    const { result } = renderHook(() =>
+      useWebSocket(URL, { retryDelay: 1000, maxRetries: 1, onClose })
+    );
+
+    MockWebSocket.instances[0].open();
+    MockWebSocket.instances[0].drop();
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(result.current.readyState).toBe(0);
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(MockWebSocket.instances).toHaveLength(2);
+
+    MockWebSocket.instances[1].drop();
+    expect(result.current.readyState).toBe(3);
+
+    act(() => {
+      vi.advanceTimersByTime(10000);
+    });
+    expect(MockWebSocket.instances).toHaveLength(2);
+  });
+
+  it("should detect dead connections with a heartbeat", () => {
+    vi.useFakeTimers();
+    const onMessage = vi.fn();
+    renderHook(() =>
+      useWebSocket(URL, {
+        heartbeat: { interval: 1000, timeout: 500 },
+        retryDelay: 100,
+        onMessage,
+      })
+    );
+    const [socket] = MockWebSocket.instances;
+    socket.open();
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(socket.sent).toEqual(["ping"]);
+
+    // Answered: still alive, and the pong is not a message
+    socket.receive("pong");
+    act(() => {
+      vi.advanceTimersByTime(600);
+    });
+    expect(socket.close).not.toHaveBeenCalled();
+    expect(onMessage).not.toHaveBeenCalled();
+
+    // Unanswered: closed and reopened
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(socket.close).toHaveBeenCalled();
+
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    expect(MockWebSocket.instances).toHaveLength(2);
+  });
+
+  it("should stay disconnected without a URL or WebSocket support", () => {
+    const { result } = renderHook(() => useWebSocket(null));
+    expect(result.current.readyState).toBe(3);
+    act(() => result.current.send("ignored"));
+
+    global.WebSocket = undefined as any;
+    renderHook(() => useWebSocket(URL));
+
+    expect(MockWebSocket.instances).toHaveLength(0);
+  });
+});
@@ -0,0 +1,315 @@
+import { useCallback, useRef, useSyncExternalStore } from "react";
+import { useIsomorphicLayoutEffect } from "../useIsomorphicLayoutEffect";
+import { NetworkError } from "../useFetch/errors";
+import { getRetryDelay, type RetryOptions } from "../useFetch/retry";
+
+/** Same values as `WebSocket.readyState`: connecting, open, closing, closed */
+export type WebSocketReadyState = 0 | 1 | 2 | 3;
+
+export type WebSocketData = Parameters<WebSocket["send"]>[0];
+
+export interface HeartbeatOptions {
+  /**
+   * Sent to the server at every interval
+   * @default "ping"
+   */
+  message?: string;
+  /**
+   * Tells the server's answer apart; it is not passed to `onMessage`
+   * @default "pong"
+   */
+  pong?: string | ((data: unknown) => boolean);
+  /**
+   * Delay (ms) between two pings
+   * @default 30000
+   */
+  interval?: number;
+  /**
+   * Without any message from the server for this long (ms) after a ping, the
+   * connection is considered dead and reopened
+   * @default 10000
+   */
+  timeout?: number;
+}
+
+export interface UseWebSocketOptions extends Pick<RetryOptions, "retryDelay"> {
+  onOpen?: (event: Event) => unknown;
+  onMessage?: (event: MessageEvent) => unknown;
+  onClose?: (event: CloseEvent) => unknown;
+  onError?: (event: Event) => unknown;
+  /**
+   * The options below configure the shared socket: the first component
+   * connecting to a URL sets them.
+   */
+  protocols?: string | string[];
+  /**
+   * Reconnect with exponential backoff when the connection closes
+   * @default true
+   */
+  reconnect?: boolean;
+  /**
+   * Reconnections attempted before giving up
+   * @default Infinity
+   */
+  maxRetries?: number;
+  /** Ping the server to detect dead connections */
+  heartbeat?: boolean | HeartbeatOptions;
+}
+
+interface WebSocketState {
+  readyState: WebSocketReadyState;
+  lastMessage: MessageEvent | null;
+}
+
+interface Subscriber {
+  onChange: () => void;
+  handlers: { current: UseWebSocketOptions };
+}
+
+interface Connection {
+  url: string;
+  options: UseWebSocketOptions;
+  socket: WebSocket | null;
+  state: WebSocketState;
+  subscribers: Set<Subscriber>;
+  queue: WebSocketData[];
+  attempt: number;
+  retryTimer?: ReturnType<typeof setTimeout>;
+  pingTimer?: ReturnType<typeof setInterval>;
+  pongTimer?: ReturnType<typeof setTimeout>;
+}
+
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSED = 3;
+
+const CONNECTING_STATE: WebSocketState = {
+  readyState: CONNECTING,
+  lastMessage: null,
+};
+const CLOSED_STATE: WebSocketState = { readyState: CLOSED, lastMessage: null };
+
+// One socket per URL, shared by every component using it
+const connections = new Map<string, Connection>();
+
+const noop = () => {};
+
+function setState(connection: Connection, state: Partial<WebSocketState>) {
+  connection.state = { ...connection.state, ...state };
+  connection.subscribers.forEach(({ onChange }) => onChange());
+}
+
+function notify<K extends "onOpen" | "onMessage" | "onClose" | "onError">(
+  connection: Connection,
+  name: K,
+  event: Parameters<NonNullable<UseWebSocketOptions[K]>>[0]
+) {
+  connection.subscribers.forEach(({ handlers }) =>
+    (handlers.current[name] as ((event: Event) => unknown) | undefined)?.(event)
+  );
+}
+
+function getHeartbeat({ heartbeat }: UseWebSocketOptions) {
+  if (!heartbeat) return null;
+  return {
+    message: "ping",
+    pong: "pong" as NonNullable<HeartbeatOptions["pong"]>,
+    interval: 30000,
+    timeout: 10000,
+    ...(heartbeat === true ? {} : heartbeat),
+  };
+}
+
+function stopHeartbeat(connection: Connection) {
+  clearInterval(connection.pingTimer);
+  clearTimeout(connection.pongTimer);
+  connection.pingTimer = connection.pongTimer = undefined;
+}
+
+function startHeartbeat(connection: Connection) {
+  const heartbeat = getHeartbeat(connection.options);
+  if (!heartbeat) return;
+
+  connection.pingTimer = setInterval(() => {
+    connection.socket?.send(heartbeat.message);
+    connection.pongTimer ??= setTimeout(() => {
+      // No answer: the connection is dead even if the socket looks open
+      const { socket } = connection;
+      if (!socket) return;
+      socket.onclose = null;
+      socket.close();
+      handleClose(
+        connection,
+        new CloseEvent("close", { code: 4000, reason: "Heartbeat timeout" })
+      );
+    }, heartbeat.timeout);
+  }, heartbeat.interval);
+}
+
+function isPong(connection: Connection, data: unknown) {
+  const heartbeat = getHeartbeat(connection.options);
+  if (!heartbeat) return false;
+  return typeof heartbeat.pong === "function"
+    ? heartbeat.pong(data)
+    : data === heartbeat.pong;
+}
+
+function handleClose(connection: Connection, event: CloseEvent) {
+  stopHeartbeat(connection);
+  connection.socket = null;
+  notify(connection, "onClose", event);
+
+  const {
+    reconnect = true,
+    maxRetries = Infinity,
+    retryDelay,
+  } = connection.options;
+
+  connection.attempt++;
+  if (!reconnect || connection.attempt > maxRetries) {
+    setState(connection, { readyState: CLOSED });
+    return;
+  }
+
+  setState(connection, { readyState: CONNECTING });
+  connection.retryTimer = setTimeout(
+    () => open(connection),
+    getRetryDelay(connection.attempt, new NetworkError(connection.url), {
+      retryDelay,
+    })
+  );
+}
+
+function open(connection: Connection) {
+  const socket = new WebSocket(connection.url, connection.options.protocols);
+  connection.socket = socket;
+
+  socket.onopen = (event) => {
+    connection.attempt = 0;
+    // Send what was queued while disconnected, in order
+    connection.queue.splice(0).forEach((data) => socket.send(data));
+    startHeartbeat(connection);
+    setState(connection, { readyState: OPEN });
+    notify(connection, "onOpen", event);
+  };
+  socket.onmessage = (event) => {
+    clearTimeout(connection.pongTimer);
+    connection.pongTimer = undefined;
+    if (isPong(connection, event.data)) return;
+
+    setState(connection, { lastMessage: event });
+    notify(connection, "onMessage", event);
+  };
+  socket.onerror = (event) => notify(connection, "onError", event);
+  socket.onclose = (event) => handleClose(connection, event);
+
+  setState(connection, {
+    readyState: socket.readyState as WebSocketReadyState,
+  });
+}
+
+function subscribe(
+  url: string,
+  options: UseWebSocketOptions,
+  subscriber: Subscriber
+) {
+  let connection = connections.get(url);
+
+  if (!connection) {
+    connection = {
+      url,
+      options,
+      socket: null,
+      state: CONNECTING_STATE,
+      subscribers: new Set(),
+      queue: [],
+      attempt: 0,
+    };
+    connections.set(url, connection);
+    open(connection);
+  }
+
+  connection.subscribers.add(subscriber);
+  const current = connection;
+
+  return () => {
+    current.subscribers.delete(subscriber);
+    if (current.subscribers.size) return;
+
+    // Last one out closes the socket
+    connections.delete(url);
+    clearTimeout(current.retryTimer);
+    stopHeartbeat(current);
+    if (current.socket) {
+      current.socket.onclose = null;
+      current.socket.close();
+    }
+  };
+}
+
+/**
+ * useWebSocket
+ *
+ * Connects to a WebSocket shared by every component using the same URL, and
+ * reconnects with exponential backoff when it closes. Messages sent while
+ * disconnected are queued and sent once the connection opens. An optional
+ * heartbeat pings the server to detect dead connections. Nothing happens on
+ * the server.
+ *
+ * @example
+ * ```tsx
+ * const { readyState, sendJson } = useWebSocket("wss://example.com/chat", {
+ *   heartbeat: { interval: 20000 },
+ *   onMessage: (event) => addMessage(JSON.parse(event.data)),
+ * });
+ *
+ * sendJson({ type: "message", text });
+ * ```
+ *
+ * @param url - The socket URL (null to stay disconnected)
+ * @param options - Event handlers, reconnection and heartbeat settings
+ */
+export function useWebSocket(
+  url: string | null,
+  options: UseWebSocketOptions = {}
+) {
+  const handlers = useRef(options);
+
+  useIsomorphicLayoutEffect(() => {
+    handlers.current = options;
+  });
+
+  const subscribeToSocket = useCallback(
+    (onChange: () => void) => {
+      if (!url || typeof WebSocket === "undefined") return noop;
+      return subscribe(url, handlers.current, { onChange, handlers });
+    },
+    [url]
+  );
+
+  const initialState = url ? CONNECTING_STATE : CLOSED_STATE;
+  const state = useSyncExternalStore(
+    subscribeToSocket,
+    () => (url && connections.get(url)?.state) || initialState,
+    () => initialState
+  );
+
+  /** Sends data now when connected, otherwise once the connection opens */
+  const send = useCallback(
+    (data: WebSocketData) => {
+      const connection = url ? connections.get(url) : undefined;
+      if (!connection) return;
+
+      if (connection.socket?.readyState === OPEN) connection.socket.send(data);
+      else connection.queue.push(data);
+    },
+    [url]
+  );
+
+  const sendJson = useCallback(
+    (value: unknown) => send(JSON.stringify(value)),
+    [send]
+  );
+
+  return { ...state, send, sendJson };
+}
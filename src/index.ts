@@ -1,4 +1,6 @@
 export * from "./hooks/useLocalStorage";
+export * from "./hooks/useSessionStorage";
+export * from "./hooks/useStorage";
 export * from "./hooks/useOnClickOutside";
 export * from "./hooks/useDebounce";
 export * from "./hooks/useMediaQuery";
@@ -22,3 +24,16 @@ export * from "./hooks/useDocumentTitle";
 export * from "./hooks/useMousePosition";
 export * from "./hooks/useFocusTrap";
 export * from "./hooks/useNetworkStatus";
+export * from "./hooks/useMutation";
+export * from "./hooks/useInfiniteFetch";
+export * from "./hooks/useSuspenseFetch";
+export * from "./hooks/useDownload";
+export * from "./hooks/useUpload";
+export * from "./hooks/useOfflineQueue";
+export * from "./hooks/useEventSource";
+export * from "./hooks/useWebSocket";
+export * from "./hooks/useStreamingFetch";
+export * from "./hooks/useIndexedDB";
+export * from "./hooks/useBroadcastState";
+export * from "./hooks/useLeaderElection";
+export * from "./hooks/useCookie";